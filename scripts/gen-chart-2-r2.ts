@@ -1,29 +1,43 @@
 /**
  * Enhanced chart generation script with Cloudflare R2 upload support
- * Usage: tsx --env-file .dev.vars scripts/gen-chart-2-r2.ts [token_symbol] [period_hours]
+ * Usage: tsx --env-file .dev.vars scripts/gen-chart-2-r2.ts [token_symbol] [period_hours] [--format=png|webp|jpeg|avif|gif|svg|pdf]
  */
 
 import { generateChartWithR2 } from "../src/chart-generator";
-import { CHART_DEFAULTS } from "../src/constants";
+import { CHART_DEFAULTS, OUTPUT_EXTENSIONS, OUTPUT_FORMATS } from "../src/constants";
 import { getR2Bucket } from "../src/lib/r2";
-import type { ChartGenerationWithR2Config, Point } from "../src/types";
+import type { ChartGenerationWithR2Config, OutputFormat, Point } from "../src/types";
 import { fetchOHLCVData, getAvailableTokensWithDetails, resolveTokenAddress, validateTokenForCharting } from "../src/utils/db";
 import { logger } from "../src/utils/logger";
 
 interface ScriptArgs {
   tokenSymbol?: string;
   periodHours?: number;
+  format: OutputFormat;
+}
+
+/**
+ * Parse the --format option (default: png)
+ */
+function parseFormat(): OutputFormat {
+  const value = process.argv.find((arg) => arg.startsWith("--format="))?.slice("--format=".length);
+  const format = OUTPUT_FORMATS.find((candidate) => candidate === value);
+  if (value !== undefined && !format) {
+    throw new Error(`Unsupported format: ${value}. Use one of: ${OUTPUT_FORMATS.join(", ")}`);
+  }
+  return format ?? "png";
 }
 
 /**
  * Parse command line arguments
  */
 function parseArgs(): ScriptArgs {
-  const [, , tokenSymbol, periodStr] = process.argv;
+  const [tokenSymbol, periodStr] = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
 
   return {
     tokenSymbol,
     periodHours: periodStr ? parseInt(periodStr, 10) : undefined,
+    format: parseFormat(),
   };
 }
 
@@ -157,8 +171,8 @@ async function main(): Promise<void> {
     const userPosition = calculateMockEntryPrice(ohlcvResult.points);
     logger.info(`💰 Using mock entry price: $${userPosition.entryPrice}, position: ${userPosition.isBullish ? 'Long' : 'Short'}`);
 
-    // Get R2 bucket instance (will use env.DEX_SSCR_BUCKET if available, otherwise mock)
-    const r2Bucket = getR2Bucket();
+    // Scripts have no R2 binding, so uploads go to a mock bucket
+    const r2Bucket = getR2Bucket(undefined, { allowMock: true });
 
     const config: ChartGenerationWithR2Config = {
       tokenAddress,
@@ -168,8 +182,9 @@ async function main(): Promise<void> {
       dpr: 1.5,
       entryPrice: userPosition.entryPrice,
       isBullish: userPosition.isBullish,
+      format: args.format,
       r2Bucket, // Enable R2 upload with managed bucket
-      outputPath: `./data/chart-${args.tokenSymbol.toLowerCase()}.png`, // Also save locally for debugging
+      outputPath: `./data/chart-${args.tokenSymbol.toLowerCase()}.${OUTPUT_EXTENSIONS[args.format]}`, // Also save locally for debugging
     };
 
     const result = await generateChartWithR2(config);
@@ -210,16 +225,17 @@ if (process.argv.includes("--help") || process.argv.includes("-h")) {
 🚀 R2-Enhanced Chart Generation Script
 
 Usage:
-  tsx --env-file .dev.vars scripts/gen-chart-2-r2.ts [token] [hours]
+  tsx --env-file .dev.vars scripts/gen-chart-2-r2.ts [token] [hours] [--format=png|webp|jpeg|avif|gif|svg|pdf]
 
 Examples:
   tsx --env-file .dev.vars scripts/gen-chart-2-r2.ts                    # List available tokens
   tsx --env-file .dev.vars scripts/gen-chart-2-r2.ts SOL               # SOL token, 24h, upload to R2
   tsx --env-file .dev.vars scripts/gen-chart-2-r2.ts USDC 12           # USDC token, 12h, upload to R2
   tsx --env-file .dev.vars scripts/gen-chart-2-r2.ts JUP 48            # JUP token, 48h, upload to R2
+  tsx --env-file .dev.vars scripts/gen-chart-2-r2.ts SOL 24 --format=pdf  # SOL token, 24h, PDF upload to R2
 
 Features:
-  - Generates high-quality PNG chart images
+  - Generates high-quality PNG, WebP, JPEG or AVIF chart images, or SVG / PDF vector charts
   - Uploads to Cloudflare R2 storage (auto-detects env.DEX_SSCR_BUCKET)
   - Returns public URLs for sharing
   - Also saves locally for debugging
@@ -230,6 +246,7 @@ Available tokens: Run without arguments to see current list from database
 Options:
   token   Token symbol (SOL, USDC, etc.) or address
   hours   Period in hours (default: 24)
+  --format  Output format: png, webp, jpeg, avif, gif, svg or pdf (default: png)
 
 Environment:
   DEX_SSCR_BUCKET   Cloudflare R2 bucket (auto-injected in Workers environment)
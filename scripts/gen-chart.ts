@@ -1,11 +1,11 @@
 /**
  * Test script for generating charts from OHLCV data
- * Usage: tsx --env-file .dev.vars scripts/gen-chart.ts [token_symbol] [period_hours]
+ * Usage: tsx --env-file .dev.vars scripts/gen-chart.ts [token_symbol] [period_hours] [output] [--format=png|webp|jpeg|avif|gif|svg|pdf] [--animate]
  */
 
 import { generateChart } from "../src/chart-generator";
-import { CHART_DEFAULTS } from "../src/constants";
-import type { ChartGenerationConfig, Point } from "../src/types";
+import { CHART_DEFAULTS, OUTPUT_EXTENSIONS, OUTPUT_FORMATS } from "../src/constants";
+import type { ChartGenerationConfig, OutputFormat, Point } from "../src/types";
 import { fetchOHLCVData, getAvailableTokensWithDetails, resolveTokenAddress, validateTokenForCharting } from "../src/utils/db";
 import { logger } from "../src/utils/logger";
 
@@ -13,18 +13,35 @@ interface ScriptArgs {
   tokenSymbol?: string;
   periodHours?: number;
   outputPath?: string;
+  format: OutputFormat;
+  animate: boolean;
+}
+
+/**
+ * Parse the --format option (default: png, or webp with --animate)
+ */
+function parseFormat(animate: boolean): OutputFormat {
+  const value = process.argv.find((arg) => arg.startsWith("--format="))?.slice("--format=".length);
+  const format = OUTPUT_FORMATS.find((candidate) => candidate === value);
+  if (value !== undefined && !format) {
+    throw new Error(`Unsupported format: ${value}. Use one of: ${OUTPUT_FORMATS.join(", ")}`);
+  }
+  return format ?? (animate ? "webp" : "png");
 }
 
 /**
  * Parse command line arguments
  */
 function parseArgs(): ScriptArgs {
-  const [, , tokenSymbol, periodStr, outputPath] = process.argv;
+  const [tokenSymbol, periodStr, outputPath] = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+  const animate = process.argv.includes("--animate");
 
   return {
     tokenSymbol,
     periodHours: periodStr ? parseInt(periodStr, 10) : undefined,
     outputPath,
+    format: parseFormat(animate),
+    animate,
   };
 }
 
@@ -164,9 +181,11 @@ async function main(): Promise<void> {
       width: 800,
       height: 360,
       dpr: 1.5,
-      outputPath: args.outputPath || `./data/chart-${args.tokenSymbol.toLowerCase()}.png`,
+      outputPath: args.outputPath || `./data/chart-${args.tokenSymbol.toLowerCase()}.${OUTPUT_EXTENSIONS[args.format]}`,
       entryPrice: userPosition.entryPrice,
       isBullish: userPosition.isBullish,
+      format: args.format,
+      animation: args.animate ? {} : undefined,
     };
 
     await generateChart(config);
@@ -188,20 +207,24 @@ if (process.argv.includes("--help") || process.argv.includes("-h")) {
 📊 Chart Generation Script
 
 Usage:
-  tsx --env-file .dev.vars scripts/gen-chart.ts [token] [hours] [output]
+  tsx --env-file .dev.vars scripts/gen-chart.ts [token] [hours] [output] [--format=png|webp|jpeg|avif|gif|svg|pdf] [--animate]
 
 Examples:
   tsx --env-file .dev.vars scripts/gen-chart.ts                    # List available tokens
   tsx --env-file .dev.vars scripts/gen-chart.ts SOL               # SOL token, 24h
   tsx --env-file .dev.vars scripts/gen-chart.ts USDC 12           # USDC token, 12h
   tsx --env-file .dev.vars scripts/gen-chart.ts JUP 48 ./data/jup.png  # JUP token, 48h, custom output
+  tsx --env-file .dev.vars scripts/gen-chart.ts SOL 24 --format=svg  # SOL token, 24h, vector SVG
+  tsx --env-file .dev.vars scripts/gen-chart.ts SOL 24 --animate     # SOL token, 24h, animated WebP
 
 Available tokens: Run without arguments to see current list from database
 
 Options:
   token   Token symbol (SOL, USDC, etc.) or address
   hours   Period in hours (default: 24)
-  output  Output file path (default: ./data/chart-{token}.png)
+  output  Output file path (default: ./data/chart-{token}.{format})
+  --format  Output format: png, webp, jpeg, avif, gif, svg or pdf (default: png)
+  --animate  Animate the price path (webp or gif, default: webp)
 `);
   process.exit(0);
 }
@@ -3,34 +3,116 @@
  * Simplified implementation using direct skia-canvas API
  */
 
-import type { Canvas, CanvasRenderingContext2D } from "skia-canvas";
-import { CHART_STYLE, NEON_STROKES } from "./constants";
-import { createCanvas, drawNeonGlow, getContext, hexToRgba } from "./lib/canvas";
+import type { Canvas, CanvasRenderingContext2D, Image } from "skia-canvas";
+import {
+  ANIMATION,
+  ANIMATION_FORMATS,
+  CHART_STYLE,
+  CHART_THEMES,
+  DEFAULT_GAP_MODE,
+  DEFAULT_THEME,
+  NEON_STROKES,
+  OUTPUT_CONTENT_TYPES,
+} from "./constants";
+import { encodeAnimatedImage } from "./lib/animated-image";
+import {
+  createCanvas,
+  drawNeonGlow,
+  exportCanvas,
+  getContext,
+  hexToRgba,
+  pathRoundedRect,
+  scaleNeonGlow,
+} from "./lib/canvas";
 import { generateR2Key, uploadToR2 } from "./lib/r2";
+import { createFetchIconLoader, loadTokenIcon } from "./lib/token-icons";
 import type {
+  AnimationFormat,
+  AnimationOptions,
+  Annotation,
   ChartConfig,
+  ChartConfigOptions,
   ChartData,
   ChartGenerationConfig,
   ChartGenerationResult,
   ChartGenerationWithR2Config,
+  ChartHeader,
   ChartPadding,
   ChartStyle,
+  ChartStyleOverrides,
+  ChartType,
+  ComparisonChartConfig,
+  ComparisonChartResult,
+  ComparisonSeries,
   Coordinate,
+  DataGap,
+  GapMode,
+  HeaderLayout,
+  IndicatorOverlay,
+  LabelFormat,
   NeonStrokeConfig,
+  OHLCPoint,
   OHLCVDataParams,
+  OHLCVDataResult,
+  OutputFormat,
+  PnLBadgeOptions,
+  PnLSummary,
   Point,
+  PriceFormatOptions,
+  PriceLevel,
   R2UploadResult,
+  SparklineBatchConfig,
+  SparklineBatchResult,
+  SparklineRow,
+  ThemeName,
+  Trade,
+  VolumePanelLayout,
+  YScaleMode,
 } from "./types";
-import { generateChartMetrics, validatePointData } from "./utils/chart-calculations";
-import { downsampleMinMax, fetchOHLCVData, validateTokenForCharting } from "./utils/db";
-import { ensureOutputDirectory, optimizeImageWithSharp } from "./utils/file-operations";
+import {
+  calculateAverageEntry,
+  calculateCandleCount,
+  calculateLogTicks,
+  calculateNiceTicks,
+  calculateOptimalDownsampleWidth,
+  calculatePnL,
+  calculateTimeTicks,
+  findFreeLabelPosition,
+  findGapBreaks,
+  findNearestPoint,
+  findPointInRange,
+  forwardFillGaps,
+  generateChartMetrics,
+  getTypicalInterval,
+  isOHLCPoint,
+  rebaseToPercent,
+  resolveLabelCollisions,
+  validatePointData,
+} from "./utils/chart-calculations";
+import { computeChartLayout } from "./utils/chart-layout";
+import {
+  downsampleCandles,
+  downsampleMinMax,
+  fetchOHLCVData,
+  getTokenByAddress,
+  resolveTokenAddress,
+  validateTokenForCharting,
+} from "./utils/db";
+import { ensureOutputDirectory, optimizeImageWithSharp, writeImageFile } from "./utils/file-operations";
+import { computeIndicators, getIndicatorLookback } from "./utils/indicators";
+import { formatDateLabel, formatTimeLabel, getTimeZoneOffset, resolveLabelFormat } from "./utils/label-format";
 import { logger } from "./utils/logger";
+import { formatPrice, getStepSignificantDigits } from "./utils/price-format";
+import { isAnimationFormat } from "./utils/validation";
 
 interface ScalingParams {
   readonly points: readonly Point[];
   readonly canvasWidth: number;
   readonly canvasHeight: number;
   readonly padding: ChartPadding;
+  readonly chartType: ChartType;
+  readonly yScaleMode?: YScaleMode;
+  readonly extraValues?: readonly number[]; // values that must stay inside the y-range (price levels)
 }
 
 interface ScaledChartData {
@@ -39,13 +121,92 @@ interface ScaledChartData {
   readonly xScale: (timestamp: number) => number;
   readonly yMin: number;
   readonly yMax: number;
+  readonly slotWidth: number; // horizontal pixels available per point (candle spacing)
+}
+
+interface ResolvedPriceLevel {
+  readonly price: number;
+  readonly color: string;
+  readonly dash: readonly number[];
+  readonly label: string;
+}
+
+// Entry or exit point of the position, snapped to the nearest rendered point
+interface PositionMarker {
+  readonly kind: "entry" | "exit";
+  readonly t: number;
+  readonly price: number;
+}
+
+// Annotation label box; y is the preferred vertical center until the box is placed
+interface AnnotationLabelBox {
+  readonly text: string;
+  readonly color: string;
+  readonly x: number; // left edge
+  readonly y: number;
+  readonly width: number;
+  readonly anchor?: Coordinate; // callout point the label points at
+}
+
+// Axis tick values with the label formatter matching their step
+interface AxisTicks {
+  readonly ticks: readonly number[];
+  readonly formatLabel: (value: number) => string;
+}
+
+// Final image bytes with the size of the render before Sharp encoding
+interface ExportedImage {
+  readonly buffer: Buffer;
+  readonly rawBytes: number;
+  readonly frames: number;
+}
+
+// Frame count and per-frame delays of an animation after defaults and the pixel budget are applied
+interface AnimationTiming {
+  readonly frames: number;
+  readonly delays: readonly number[];
+  readonly loop: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Find the value range covered by the points (wicks included for candles and bars)
+ */
+function findValueRange(points: readonly Point[], chartType: ChartType): { yMin: number; yMax: number } {
+  const useWicks = chartType !== "line";
+  let yMin = Number.POSITIVE_INFINITY;
+  let yMax = Number.NEGATIVE_INFINITY;
+
+  for (const point of points) {
+    const low = useWicks && isOHLCPoint(point) ? point.l : point.y;
+    const high = useWicks && isOHLCPoint(point) ? point.h : point.y;
+    if (low < yMin) yMin = low;
+    if (high > yMax) yMax = high;
+  }
+
+  return { yMin, yMax };
+}
+
+/**
+ * Get the mapping between prices and axis space: identity for linear/percent, log10 for the log scale
+ * Non-positive values map to the far bottom of a log axis instead of NaN
+ */
+function getAxisTransform(mode: YScaleMode): {
+  toAxis: (value: number) => number;
+  fromAxis: (value: number) => number;
+} {
+  if (mode !== "log") {
+    return { toAxis: (value) => value, fromAxis: (value) => value };
+  }
+  return { toAxis: (value) => Math.log10(Math.max(value, Number.MIN_VALUE)), fromAxis: (value) => 10 ** value };
 }
 
 /**
  * Scale chart points to canvas coordinates
  */
 function scalePointsToCanvas(params: ScalingParams): ScaledChartData {
-  const { points, canvasWidth, canvasHeight, padding } = params;
+  const { points, canvasWidth, canvasHeight, padding, chartType, yScaleMode = "linear", extraValues = [] } = params;
 
   if (points.length === 0) {
     throw new Error("Cannot scale empty points array");
@@ -62,26 +223,34 @@ function scalePointsToCanvas(params: ScalingParams): ScaledChartData {
     throw new Error("Invalid points data for scaling");
   }
 
-  const timeMin = firstPoint.t;
-  const timeMax = lastPoint.t;
+  // Candles and bars need half a slot of room on each side so the outermost ones are not clipped
+  // The slot follows the typical candle spacing; the average would be inflated by gaps in the data
+  const interval = getTypicalInterval(points);
+  const halfInterval = chartType !== "line" ? interval / 2 : 0;
+  const timeMin = firstPoint.t - halfInterval;
+  const timeMax = lastPoint.t + halfInterval;
 
-  let yMin = Number.POSITIVE_INFINITY;
-  let yMax = Number.NEGATIVE_INFINITY;
+  let { yMin, yMax } = findValueRange(points, chartType);
 
-  for (const point of points) {
-    if (point.y < yMin) yMin = point.y;
-    if (point.y > yMax) yMax = point.y;
+  // Widen the range so every price level stays visible
+  for (const value of extraValues) {
+    if (value < yMin) yMin = value;
+    if (value > yMax) yMax = value;
   }
 
-  // Add visual margin for better appearance
-  const yMargin = (yMax - yMin) * CHART_STYLE.Y_MARGIN_RATIO || 1;
-  yMin -= yMargin;
-  yMax += yMargin;
+  // Add visual margin for better appearance (in log space for the log scale)
+  const { toAxis, fromAxis } = getAxisTransform(yScaleMode);
+  const axisMargin = (toAxis(yMax) - toAxis(yMin)) * CHART_STYLE.Y_MARGIN_RATIO || 1;
+  const axisMin = toAxis(yMin) - axisMargin;
+  const axisMax = toAxis(yMax) + axisMargin;
+  yMin = fromAxis(axisMin);
+  yMax = fromAxis(axisMax);
 
   // Create scaling functions
   const xScale = (timestamp: number): number => padding.l + ((timestamp - timeMin) / (timeMax - timeMin)) * innerWidth;
 
-  const yScale = (value: number): number => padding.t + (1 - (value - yMin) / (yMax - yMin)) * innerHeight;
+  const yScale = (value: number): number =>
+    padding.t + (1 - (toAxis(value) - axisMin) / (axisMax - axisMin)) * innerHeight;
 
   // Scale all points
   const coordinates: Coordinate[] = points.map((point) => ({
@@ -97,47 +266,149 @@ function scalePointsToCanvas(params: ScalingParams): ScaledChartData {
     xScale,
     yMin,
     yMax,
+    slotWidth: interval > 0 ? (interval / (timeMax - timeMin)) * innerWidth : innerWidth / points.length,
   };
 }
 
 /**
- * Format price value for display
+ * Format a number with a fixed number of decimals and the locale's grouping and decimal separators
  */
-function formatPrice(value: number): string {
-  if (value >= 1000) {
-    return `$${(value / 1000).toFixed(1)}K`;
-  }
-  if (value >= 1) {
-    return `$${value.toFixed(2)}`;
+function formatFixed(value: number, digits: number, locale: string): string {
+  return value.toLocaleString(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+/**
+ * Format a price axis label at the precision of the tick step, padded so neighbouring labels line up
+ */
+function formatAxisPrice(value: number, step: number, locale: string): string {
+  return formatPrice(value, { locale, significantDigits: getStepSignificantDigits(value, step), padZeros: true });
+}
+
+/**
+ * Format a log axis label; log ticks are not evenly stepped, so keep three significant digits
+ */
+function formatLogAxisPrice(value: number, locale: string): string {
+  return formatPrice(value, { locale, significantDigits: 3 });
+}
+
+/**
+ * Format timestamp for display in the label time zone
+ * Daily or coarser steps show the date, finer steps over multi-day ranges show date and time
+ */
+function formatTime(timestamp: number, timeRange: number, step: number, format: LabelFormat): string {
+  if (step >= DAY_MS) {
+    return formatDateLabel(timestamp, format);
   }
-  if (value >= 0.01) {
-    return `$${value.toFixed(3)}`;
+
+  if (timeRange > DAY_MS) {
+    return `${formatDateLabel(timestamp, format)}\n${formatTimeLabel(timestamp, format)}`;
   }
-  return `$${value.toFixed(6)}`;
+
+  return formatTimeLabel(timestamp, format);
+}
+
+/**
+ * Format a percentage change with sign, e.g. "+0%", "+50%", "-8.5%"
+ * `step` is the percent tick step and sets the number of decimals
+ */
+function formatPercentChange(percent: number, step: number, locale: string): string {
+  const digits = Math.max(0, -Math.floor(Math.log10(step)));
+  const rounded = Number(Math.abs(percent).toFixed(digits));
+  return `${percent < 0 && rounded !== 0 ? "-" : "+"}${formatFixed(rounded, digits, locale)}%`;
 }
 
 /**
- * Format timestamp for display
+ * Format a price as the percentage change from the entry price
  */
-function formatTime(timestamp: number, timeRange: number): string {
-  const date = new Date(timestamp);
+function formatPercentFromEntry(value: number, entryPrice: number, step: number, locale: string): string {
+  return formatPercentChange((value / entryPrice - 1) * 100, step, locale);
+}
 
-  // For periods > 7 days, show date
-  if (timeRange > 7 * 24 * 60 * 60 * 1000) {
-    return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+/**
+ * Get price axis ticks and their label formatter
+ * Linear prices and percent changes use round 1/2/5 steps, the log scale uses log-spaced ticks
+ */
+function getYAxisTicks(
+  yMin: number,
+  yMax: number,
+  mode: YScaleMode,
+  entryPrice: number,
+  maxTicks: number,
+  locale: string,
+): AxisTicks {
+  switch (mode) {
+    case "log":
+      return {
+        ticks: calculateLogTicks(yMin, yMax, maxTicks),
+        formatLabel: (value) => formatLogAxisPrice(value, locale),
+      };
+    case "percent": {
+      const toPercent = (value: number) => (value / entryPrice - 1) * 100;
+      const { ticks, step } = calculateNiceTicks(toPercent(yMin), toPercent(yMax), maxTicks);
+      return {
+        ticks: ticks.map((percent) => entryPrice * (1 + percent / 100)),
+        formatLabel: (value) => formatPercentFromEntry(value, entryPrice, step, locale),
+      };
+    }
+    case "linear": {
+      const { ticks, step } = calculateNiceTicks(yMin, yMax, maxTicks);
+      return { ticks, formatLabel: (value) => formatAxisPrice(value, step, locale) };
+    }
   }
+}
+
+/**
+ * Get time axis ticks on the finest aligned step whose labels fit side by side
+ */
+function getXAxisTicks(
+  ctx: CanvasRenderingContext2D,
+  points: readonly Point[],
+  plotWidth: number,
+  fontSize: number,
+  dpr: number,
+  labelFormat: LabelFormat,
+): AxisTicks {
+  const firstTime = points[0]?.t ?? 0;
+  const timeRange = (points[points.length - 1]?.t ?? firstTime) - firstTime;
+  const minGap = CHART_STYLE.AXIS.MIN_LABEL_GAP * dpr;
+  let result: AxisTicks = { ticks: [firstTime], formatLabel: (t) => formatTime(t, timeRange, DAY_MS, labelFormat) };
+  if (timeRange <= 0) return result;
+
+  // Ticks align to local boundaries using the offset at the window start (a DST switch inside it shifts later ticks)
+  const offset = getTimeZoneOffset(labelFormat.timeZone, firstTime);
 
-  // For periods > 1 day, show date and time
-  if (timeRange > 24 * 60 * 60 * 1000) {
-    return (
-      date.toLocaleDateString("en-US", { month: "short", day: "numeric" }) +
-      "\n" +
-      date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" })
+  ctx.save();
+  ctx.font = `${fontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+
+  for (const minutes of CHART_STYLE.AXIS.TIME_STEPS_MINUTES) {
+    const step = minutes * 60 * 1000;
+    const spacing = (step / timeRange) * plotWidth;
+    // Skip steps that cannot fit even narrow labels before formatting every tick
+    if (spacing < fontSize * 2) continue;
+
+    const formatLabel = (t: number) => formatTime(t, timeRange, step, labelFormat);
+    const ticks = calculateTimeTicks(firstTime, firstTime + timeRange, step, offset);
+    result = { ticks, formatLabel };
+
+    const labelWidth = Math.max(
+      ...ticks.flatMap((t) =>
+        formatLabel(t)
+          .split("\n")
+          .map((line) => ctx.measureText(line).width),
+      ),
     );
+    if (spacing >= labelWidth + minGap) break;
   }
 
-  // For shorter periods, show time only
-  return date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" });
+  ctx.restore();
+  return result;
+}
+
+/**
+ * Maximum number of price ticks whose labels fit the plot height
+ */
+function getMaxYTicks(plotHeight: number, fontSize: number, minLabelSpacing: number): number {
+  return Math.max(2, Math.floor(plotHeight / (fontSize * minLabelSpacing)) + 1);
 }
 
 /**
@@ -145,28 +416,25 @@ function formatTime(timestamp: number, timeRange: number): string {
  */
 function drawYAxis(
   ctx: CanvasRenderingContext2D,
-  yMin: number,
-  yMax: number,
+  { ticks, formatLabel }: AxisTicks,
   yScale: (value: number) => number,
   padding: ChartPadding,
   width: number,
   dpr: number,
+  fontSize: number,
+  style: ChartStyle,
 ): void {
-  const tickCount = 5;
-  const fontSize = width * CHART_STYLE.AXIS.FONT_SIZE_RATIO * dpr;
-
   ctx.save();
-  ctx.fillStyle = CHART_STYLE.COLORS.AXIS_LABELS;
-  ctx.strokeStyle = CHART_STYLE.COLORS.AXIS_LABELS;
-  ctx.font = `${fontSize}px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif`;
+  ctx.fillStyle = style.axisLabelColor;
+  ctx.strokeStyle = style.axisLabelColor;
+  ctx.font = `${fontSize}px ${CHART_STYLE.FONT_FAMILY}`;
   ctx.textAlign = "left";
   ctx.textBaseline = "middle";
   ctx.lineWidth = 1;
 
-  for (let i = 0; i <= tickCount; i++) {
-    const value = yMin + (yMax - yMin) * (i / tickCount);
+  for (const value of ticks) {
     const y = yScale(value);
-    const text = formatPrice(value);
+    const text = formatLabel(value);
 
     // Draw price label with better positioning
     const labelX = width - padding.r + CHART_STYLE.AXIS.LABEL_PADDING * dpr;
@@ -188,39 +456,25 @@ function drawYAxis(
  */
 function drawXAxis(
   ctx: CanvasRenderingContext2D,
-  points: readonly Point[],
+  { ticks, formatLabel }: AxisTicks,
   xScale: (timestamp: number) => number,
   padding: ChartPadding,
   height: number,
-  width: number,
   dpr: number,
+  fontSize: number,
+  style: ChartStyle,
 ): void {
-  if (points.length === 0) return;
-
-  const tickCount = 5;
-  const fontSize = width * CHART_STYLE.AXIS.FONT_SIZE_RATIO * dpr;
-  const firstPoint = points[0];
-  const lastPoint = points[points.length - 1];
-
-  if (!firstPoint || !lastPoint) {
-    logger.warn("Invalid points data for X-axis rendering");
-    return;
-  }
-
-  const timeRange = lastPoint.t - firstPoint.t;
-
   ctx.save();
-  ctx.fillStyle = CHART_STYLE.COLORS.AXIS_LABELS;
-  ctx.strokeStyle = CHART_STYLE.COLORS.AXIS_LABELS;
-  ctx.font = `${fontSize}px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif`;
+  ctx.fillStyle = style.axisLabelColor;
+  ctx.strokeStyle = style.axisLabelColor;
+  ctx.font = `${fontSize}px ${CHART_STYLE.FONT_FAMILY}`;
   ctx.textAlign = "center";
   ctx.textBaseline = "top";
   ctx.lineWidth = 1;
 
-  for (let i = 0; i <= tickCount; i++) {
-    const timestamp = firstPoint.t + (timeRange * i) / tickCount;
+  for (const timestamp of ticks) {
     const x = xScale(timestamp);
-    const text = formatTime(timestamp, timeRange);
+    const text = formatLabel(timestamp);
 
     // Handle multi-line text for date + time format
     const lines = text.split("\n");
@@ -255,7 +509,7 @@ function drawBackground(ctx: CanvasRenderingContext2D, width: number, height: nu
 }
 
 /**
- * Draw horizontal and vertical grid lines
+ * Draw horizontal and vertical grid lines on the axis tick positions
  */
 function drawGrid(
   ctx: CanvasRenderingContext2D,
@@ -263,17 +517,15 @@ function drawGrid(
   height: number,
   padding: ChartPadding,
   style: ChartStyle,
-  gridLines = CHART_STYLE.GRID_LINES,
+  yPositions: readonly number[],
+  xPositions: readonly number[],
 ): void {
   ctx.strokeStyle = style.gridColor;
   ctx.lineWidth = 1;
 
-  const innerWidth = width - padding.l - padding.r;
-  const innerHeight = height - padding.t - padding.b;
-
   // Draw horizontal grid lines
-  for (let i = 0; i <= gridLines; i++) {
-    const y = Math.round(padding.t + (i / gridLines) * innerHeight) + 0.5;
+  for (const position of yPositions) {
+    const y = Math.round(position) + 0.5;
 
     ctx.beginPath();
     ctx.moveTo(padding.l, y);
@@ -282,9 +534,8 @@ function drawGrid(
   }
 
   // Draw vertical grid lines
-  const verticalLines = 5; // Number of vertical grid lines
-  for (let i = 0; i <= verticalLines; i++) {
-    const x = Math.round(padding.l + (i / verticalLines) * innerWidth) + 0.5;
+  for (const position of xPositions) {
+    const x = Math.round(position) + 0.5;
 
     ctx.beginPath();
     ctx.moveTo(x, padding.t);
@@ -292,36 +543,148 @@ function drawGrid(
     ctx.stroke();
   }
 
-  logger.debug(`Drew ${gridLines + 1} horizontal and ${verticalLines + 1} vertical grid lines`);
+  logger.debug(`Drew ${yPositions.length} horizontal and ${xPositions.length} vertical grid lines`);
+}
+
+/**
+ * Resolve color, dash pattern and label for a price level
+ */
+function resolvePriceLevel(level: PriceLevel, style: ChartStyle): ResolvedPriceLevel {
+  const defaultColor = level.type === "entry" ? style.entryLineColor : style.levelColors[level.type];
+
+  return {
+    price: level.price,
+    color: level.color ?? defaultColor,
+    dash: CHART_STYLE.PRICE_LEVELS.DASH[level.type],
+    label: level.label ?? CHART_STYLE.PRICE_LEVELS.LABELS[level.type],
+  };
+}
+
+/**
+ * Draw horizontal price level lines (entry, TP, SL, liquidation, custom) with dashed style
+ */
+function drawPriceLevelLines(
+  ctx: CanvasRenderingContext2D,
+  levels: readonly ResolvedPriceLevel[],
+  width: number,
+  padding: ChartPadding,
+  yScale: (value: number) => number,
+  dpr: number,
+): void {
+  for (const level of levels) {
+    const y = yScale(level.price);
+
+    ctx.save();
+    ctx.setLineDash(level.dash.map((segment) => segment * dpr));
+    ctx.lineWidth = 1.5 * dpr;
+    ctx.strokeStyle = hexToRgba(level.color, CHART_STYLE.PRICE_LEVELS.LINE_ALPHA);
+
+    ctx.beginPath();
+    ctx.moveTo(padding.l, y);
+    ctx.lineTo(width - padding.r, y);
+    ctx.stroke();
+
+    ctx.restore();
+  }
+
+  logger.debug(`Drew ${levels.length} price level lines`);
 }
 
 /**
- * Draw entry price line with dashed style
+ * Draw filled price tags on the right axis, nudged apart so they never overlap
+ * The last-price tag moves out of the way of the level tags, which keep their places
  */
-function drawEntryLine(
+function drawPriceTags(
   ctx: CanvasRenderingContext2D,
-  entryPrice: number,
+  levels: readonly ResolvedPriceLevel[],
+  lastPriceTag: ResolvedPriceLevel | null,
   width: number,
+  height: number,
   padding: ChartPadding,
   yScale: (value: number) => number,
-  style: ChartStyle,
   dpr: number,
+  fontSize: number,
+  style: ChartStyle,
+  priceFormat: PriceFormatOptions,
 ): void {
-  const y = yScale(entryPrice);
+  const tags = lastPriceTag ? [...levels, lastPriceTag] : levels;
+  if (tags.length === 0) return;
+
+  const tagPadding = CHART_STYLE.PRICE_LEVELS.TAG_PADDING * dpr;
+  const tagHeight = fontSize + tagPadding * 2;
+  const tagX = width - padding.r + 1;
+  const tagYs = resolveLabelCollisions(
+    levels.map((level) => yScale(level.price)),
+    tagHeight + 1,
+    padding.t,
+    height - padding.b,
+  );
+  if (lastPriceTag) {
+    const desiredY = yScale(lastPriceTag.price);
+    tagYs.push(findFreeLabelPosition(desiredY, tagYs, tagHeight + 1, padding.t, height - padding.b));
+  }
 
   ctx.save();
-  ctx.setLineDash([8 * dpr, 8 * dpr]);
-  ctx.lineWidth = 1.5 * dpr;
-  ctx.strokeStyle = hexToRgba(style.entryLineColor, 0.6);
+  ctx.font = `${fontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+
+  tags.forEach((level, index) => {
+    const centerY = tagYs[index] ?? yScale(level.price);
+    const price = formatPrice(level.price, priceFormat);
+    const text = level.label ? `${level.label} ${price}` : price;
+    const tagWidth = ctx.measureText(text).width + tagPadding * 2;
+
+    ctx.fillStyle = level.color;
+    pathRoundedRect(ctx, tagX, centerY - tagHeight / 2, tagWidth, tagHeight, CHART_STYLE.PRICE_LEVELS.TAG_RADIUS * dpr);
+    ctx.fill();
+
+    ctx.fillStyle = style.tagTextColor;
+    ctx.fillText(text, tagX + tagPadding, centerY);
+  });
+
+  ctx.restore();
+  logger.debug(`Drew ${tags.length} price tags`);
+}
+
+/**
+ * Draw the end-point dot of the series: a filled dot inside a neon ring, with a pulse halo that widens
+ * and fades as the phase goes from 0 to 1
+ */
+function drawLastPriceDot(
+  ctx: CanvasRenderingContext2D,
+  point: Coordinate,
+  phase: number,
+  style: ChartStyle,
+  dpr: number,
+): void {
+  const config = CHART_STYLE.LAST_PRICE;
+  const radius = config.DOT_RADIUS * dpr;
+  const pulseRadius = radius + (config.PULSE_RADIUS * dpr - radius) * phase;
 
+  ctx.save();
+  ctx.strokeStyle = hexToRgba(style.lineColor, config.PULSE_ALPHA * (1 - phase));
+  ctx.lineWidth = 1.5;
   ctx.beginPath();
-  ctx.moveTo(padding.l, y);
-  ctx.lineTo(width - padding.r, y);
+  ctx.arc(point.x, point.y, pulseRadius, 0, Math.PI * 2);
   ctx.stroke();
+  ctx.restore();
+
+  // Trace the ring as a closed polyline so it gets the same glow layers as the line
+  const ring = Array.from({ length: config.RING_SEGMENTS + 1 }, (_, index) => {
+    const angle = (index / config.RING_SEGMENTS) * Math.PI * 2;
+    return { x: point.x + Math.cos(angle) * radius, y: point.y + Math.sin(angle) * radius };
+  });
+  drawNeonGlow(ctx, ring, style.lineColor, scaleNeonGlow(NEON_STROKES, style.glowStrength));
 
+  ctx.save();
+  ctx.fillStyle = style.lineColor;
+  ctx.beginPath();
+  ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+  ctx.fill();
   ctx.restore();
 
-  logger.debug(`Drew entry line at price: ${entryPrice.toFixed(2)}`);
+  logger.debug("Drew last price dot");
 }
 
 /**
@@ -386,194 +749,1839 @@ function drawChartLine(
 }
 
 /**
- * Determine chart style based on market sentiment
- */
-function getChartStyle(isBullish: boolean): ChartStyle {
-  const lineColor = isBullish ? CHART_STYLE.COLORS.BULLISH : CHART_STYLE.COLORS.BEARISH;
-
-  return {
-    lineColor,
-    backgroundColor: {
-      start: CHART_STYLE.COLORS.BACKGROUND_START,
-      end: CHART_STYLE.COLORS.BACKGROUND_END,
-    },
-    gridColor: CHART_STYLE.COLORS.GRID,
-    entryLineColor: lineColor,
-  };
-}
-
-/**
- * Create default chart configuration
+ * Convert a point to a candle, treating plain points as flat candles at their value
  */
-export function createDefaultChartConfig(width: number, height: number, dpr: number): ChartConfig {
-  return {
-    dimensions: {
-      width,
-      height,
-      dpr,
-    },
-    padding: {
-      l: Math.round(width * CHART_STYLE.PADDING.LEFT_RATIO),
-      r: Math.round(width * CHART_STYLE.PADDING.RIGHT_RATIO),
-      t: Math.round(height * CHART_STYLE.PADDING.TOP_RATIO),
-      b: Math.round(height * CHART_STYLE.PADDING.BOTTOM_RATIO),
-    },
-    style: getChartStyle(true), // Will be overridden based on actual data
-    downsampleWidth: Math.round(width * 2),
-  };
+function toCandle(point: Point): OHLCPoint {
+  return isOHLCPoint(point) ? point : { t: point.t, y: point.y, o: point.y, h: point.y, l: point.y, v: 0 };
 }
 
 /**
- * Create and setup canvas for chart rendering
+ * Split candles into rising (close >= open) and falling groups with their colors
  */
-export function setupChartCanvas(
-  width: number,
-  height: number,
-  dpr: number,
-): { canvas: Canvas; ctx: CanvasRenderingContext2D } {
-  const canvas = createCanvas(Math.round(width * dpr), Math.round(height * dpr));
-  const ctx = getContext(canvas);
+function groupCandlesByDirection(
+  points: readonly Point[],
+  style: ChartStyle,
+): ReadonlyArray<{ color: string; candles: readonly OHLCPoint[] }> {
+  const rising: OHLCPoint[] = [];
+  const falling: OHLCPoint[] = [];
 
-  // Set up high-DPI rendering
-  ctx.scale(dpr, dpr);
+  for (const point of points) {
+    const candle = toCandle(point);
+    (candle.y >= candle.o ? rising : falling).push(candle);
+  }
 
-  return { canvas, ctx };
+  return [
+    { color: style.candleUpColor, candles: rising },
+    { color: style.candleDownColor, candles: falling },
+  ];
 }
 
 /**
- * Main chart rendering function - with axes support
+ * Draw candlesticks with neon glow layers, colored by candle direction
  */
-export function renderChart(ctx: CanvasRenderingContext2D, chartData: ChartData, config: ChartConfig): void {
-  const { dimensions, padding } = config;
-
-  // Use logical dimensions for coordinate calculations (not scaled by DPR)
-  const canvasWidth = dimensions.width;
-  const canvasHeight = dimensions.height;
-
-  // Update style based on market sentiment
-  const style = getChartStyle(chartData.isBullish);
-
-  // Scale points to canvas coordinates using logical dimensions
-  const scaledData = scalePointsToCanvas({
-    points: chartData.points,
-    canvasWidth,
-    canvasHeight,
-    padding,
-  });
+function drawCandles(
+  ctx: CanvasRenderingContext2D,
+  points: readonly Point[],
+  scaledData: ScaledChartData,
+  style: ChartStyle,
+  strokes: readonly NeonStrokeConfig[] = NEON_STROKES,
+): void {
+  const { xScale, yScale, slotWidth } = scaledData;
+  const bodyWidth = Math.max(1, slotWidth * CHART_STYLE.CANDLES.BODY_WIDTH_RATIO);
+
+  for (const { color, candles } of groupCandlesByDirection(points, style)) {
+    if (candles.length === 0) continue;
+
+    // Draw each stroke layer from thickest to thinnest for proper layering
+    for (const stroke of strokes) {
+      ctx.save();
+      ctx.strokeStyle = hexToRgba(color, stroke.alpha);
+      ctx.fillStyle = hexToRgba(color, stroke.alpha);
+      ctx.lineWidth = Math.max(1, stroke.width * CHART_STYLE.CANDLES.WICK_WIDTH_RATIO);
+
+      if (stroke.blur > 0) {
+        ctx.shadowColor = color;
+        ctx.shadowBlur = stroke.blur;
+      }
 
-  // Render all chart elements in order
-  drawBackground(ctx, canvasWidth, canvasHeight, style);
-  drawGrid(ctx, canvasWidth, canvasHeight, padding, style);
+      // Wicks
+      ctx.beginPath();
+      for (const candle of candles) {
+        const x = xScale(candle.t);
+        ctx.moveTo(x, yScale(candle.h));
+        ctx.lineTo(x, yScale(candle.l));
+      }
+      ctx.stroke();
 
-  // Draw axes
-  drawYAxis(ctx, scaledData.yMin, scaledData.yMax, scaledData.yScale, padding, canvasWidth, dimensions.dpr);
-  drawXAxis(ctx, chartData.points, scaledData.xScale, padding, canvasHeight, canvasWidth, dimensions.dpr);
+      // Bodies (at least 1px tall so doji candles stay visible)
+      for (const candle of candles) {
+        const top = yScale(Math.max(candle.o, candle.y));
+        const bodyHeight = Math.max(1, yScale(Math.min(candle.o, candle.y)) - top);
+        ctx.fillRect(xScale(candle.t) - bodyWidth / 2, top, bodyWidth, bodyHeight);
+      }
 
-  drawEntryLine(ctx, chartData.entryPrice, canvasWidth, padding, scaledData.yScale, style, dimensions.dpr);
-  drawAreaFill(ctx, scaledData.coordinates, canvasHeight, padding, style.lineColor);
-  drawChartLine(ctx, scaledData.coordinates, style.lineColor);
+      ctx.restore();
+    }
+  }
 
-  logger.info(`Rendered chart with ${chartData.points.length} points, bullish: ${chartData.isBullish}`);
+  logger.debug(`Drew ${points.length} candles with ${strokes.length} neon stroke layers`);
 }
 
 /**
- * Generate a chart from OHLCV data with optional R2 upload
- * Enhanced chart generation orchestration function
+ * Draw OHLC bars (high-low line with open tick on the left and close tick on the right)
  */
-export async function generateChartWithR2(config: ChartGenerationWithR2Config): Promise<ChartGenerationResult> {
-  logger.info(`Starting chart generation for token: ${config.tokenAddress}`);
+function drawOHLCBars(
+  ctx: CanvasRenderingContext2D,
+  points: readonly Point[],
+  scaledData: ScaledChartData,
+  style: ChartStyle,
+  strokes: readonly NeonStrokeConfig[] = NEON_STROKES,
+): void {
+  const { xScale, yScale, slotWidth } = scaledData;
+  const tickLength = Math.max(1, (slotWidth * CHART_STYLE.CANDLES.BODY_WIDTH_RATIO) / 2);
 
-  try {
-    // Step 1: Validate token has sufficient data
-    const validation = await validateTokenForCharting(config.tokenAddress);
-    if (!validation.isValid) {
-      throw new Error(
-        `Token ${config.tokenAddress} does not have sufficient data for charting (${validation.dataCount} points)`,
-      );
-    }
+  for (const { color, candles } of groupCandlesByDirection(points, style)) {
+    if (candles.length === 0) continue;
 
-    // Step 2: Fetch OHLCV data from database
-    const ohlcvParams: OHLCVDataParams = {
-      tokenAddress: config.tokenAddress,
-      periodHours: config.periodHours,
-      intervalMinutes: 1, // Default interval
-    };
+    for (const stroke of strokes) {
+      ctx.save();
+      ctx.strokeStyle = hexToRgba(color, stroke.alpha);
+      ctx.lineWidth = Math.max(1, stroke.width * CHART_STYLE.CANDLES.WICK_WIDTH_RATIO);
+      ctx.lineCap = "butt";
 
-    const ohlcvResult = await fetchOHLCVData(ohlcvParams);
+      if (stroke.blur > 0) {
+        ctx.shadowColor = color;
+        ctx.shadowBlur = stroke.blur;
+      }
 
-    if (ohlcvResult.points.length === 0) {
-      throw new Error(`No OHLCV data retrieved for token ${config.tokenAddress}`);
-    }
+      ctx.beginPath();
+      for (const candle of candles) {
+        const x = xScale(candle.t);
+        ctx.moveTo(x, yScale(candle.h));
+        ctx.lineTo(x, yScale(candle.l));
+        ctx.moveTo(x - tickLength, yScale(candle.o));
+        ctx.lineTo(x, yScale(candle.o));
+        ctx.moveTo(x, yScale(candle.y));
+        ctx.lineTo(x + tickLength, yScale(candle.y));
+      }
+      ctx.stroke();
 
-    // Step 3: Validate data integrity
-    const dataValidation = validatePointData(ohlcvResult.points);
-    if (!dataValidation.isValid) {
-      throw new Error(`Invalid OHLCV data: ${dataValidation.errors.join(", ")}`);
+      ctx.restore();
     }
+  }
 
-    // Step 4: Calculate optimal downsampling width
-    const downsampleWidth = Math.round(config.width * 2);
-
-    // Step 5: Downsample data for rendering optimization
-    const downsampledData = downsampleMinMax(ohlcvResult.points, downsampleWidth);
+  logger.debug(`Drew ${points.length} OHLC bars with ${strokes.length} neon stroke layers`);
+}
 
-    // Step 6: Create chart configuration
-    const chartConfig = createDefaultChartConfig(config.width, config.height, config.dpr);
+/**
+ * Format chart period for the header, e.g. "4H", "24H", "7D"
+ */
+function formatPeriodLabel(periodHours: number): string {
+  const hours = Math.round(periodHours);
+  if (hours > 24 && hours % 24 === 0) {
+    return `${hours / 24}D`;
+  }
+  return `${hours}H`;
+}
 
-    // Step 7: Prepare chart data with user's entry price and position direction
-    const chartData = {
-      points: downsampledData,
-      entryPrice: config.entryPrice,
-      isBullish: config.isBullish,
-    };
+/**
+ * Shorten text with an ellipsis so it fits into maxWidth using the current font
+ */
+function truncateText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
 
-    // Step 8: Setup canvas and render chart
-    const { canvas, ctx } = setupChartCanvas(config.width, config.height, config.dpr);
-    renderChart(ctx, chartData, chartConfig);
+  let truncated = text;
+  while (truncated.length > 0 && ctx.measureText(`${truncated}…`).width > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return truncated.length > 0 ? `${truncated}…` : "";
+}
 
-    // Step 9: Export chart directly using skia-canvas built-in methods
-    const imageBuffer = await canvas.toBuffer("png");
+/**
+ * Draw a generated token icon: colored circle with the symbol's initials in the theme's tag text color
+ */
+function drawFallbackIcon(
+  ctx: CanvasRenderingContext2D,
+  symbol: string,
+  x: number,
+  y: number,
+  size: number,
+  style: ChartStyle,
+): void {
+  const colors = CHART_STYLE.HEADER.FALLBACK_ICON_COLORS;
+  const hash = Array.from(symbol).reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  const color = colors[hash % colors.length] ?? CHART_STYLE.COLORS.BULLISH;
 
-    // Step 10: Optimize image using Sharp
-    const optimizedBuffer = await optimizeImageWithSharp(imageBuffer);
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x + size / 2, y + size / 2, size / 2, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = style.tagTextColor;
+  ctx.font = `bold ${size * 0.4}px ${CHART_STYLE.FONT_FAMILY}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(symbol.slice(0, 2).toUpperCase(), x + size / 2, y + size / 2);
+  ctx.restore();
+}
+
+/**
+ * Draw a token icon clipped to a circle
+ */
+function drawTokenIcon(ctx: CanvasRenderingContext2D, icon: Image, x: number, y: number, size: number): void {
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(x + size / 2, y + size / 2, size / 2, 0, Math.PI * 2);
+  ctx.clip();
+  ctx.drawImage(icon, x, y, size, size);
+  ctx.restore();
+}
+
+/**
+ * Draw token header strip: icon, symbol, name and period on the left, last price on the right
+ */
+function drawHeader(
+  ctx: CanvasRenderingContext2D,
+  header: ChartHeader,
+  lastPrice: number,
+  layout: HeaderLayout,
+  width: number,
+  padding: ChartPadding,
+  style: ChartStyle,
+  priceFormat: PriceFormatOptions,
+): void {
+  const config = CHART_STYLE.HEADER;
+  const centerY = (padding.t + layout.height) / 2;
+  const iconSize = layout.height * config.ICON_SCALE;
+  const titleFontSize = layout.height * config.TITLE_FONT_SCALE;
+  const subtitleFontSize = layout.height * config.SUBTITLE_FONT_SCALE;
+  const rightEdge = width - padding.r;
+  let x = padding.l;
+
+  if (header.icon) {
+    drawTokenIcon(ctx, header.icon, x, centerY - iconSize / 2, iconSize);
+  } else {
+    drawFallbackIcon(ctx, header.symbol, x, centerY - iconSize / 2, iconSize, style);
+  }
+  x += iconSize + config.GAP;
+
+  ctx.save();
+  ctx.textBaseline = "middle";
+
+  // Last price on the right, measured first so the name can be truncated to the remaining space
+  ctx.font = `bold ${titleFontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+  ctx.textAlign = "right";
+  ctx.fillStyle = style.textColor;
+  const priceText = formatPrice(lastPrice, priceFormat);
+  ctx.fillText(priceText, rightEdge, centerY);
+  const priceLeft = rightEdge - ctx.measureText(priceText).width - config.GAP;
+
+  // Symbol
+  ctx.textAlign = "left";
+  ctx.fillText(header.symbol, x, centerY);
+  x += ctx.measureText(header.symbol).width + config.GAP;
+
+  // Period pill
+  ctx.font = `bold ${subtitleFontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+  const periodText = formatPeriodLabel(header.periodHours);
+  const pillPadding = subtitleFontSize * 0.4;
+  const pillWidth = ctx.measureText(periodText).width + pillPadding * 2;
+  const pillHeight = subtitleFontSize + pillPadding * 2;
+  ctx.strokeStyle = style.mutedTextColor;
+  ctx.lineWidth = 1;
+  pathRoundedRect(ctx, x, centerY - pillHeight / 2, pillWidth, pillHeight, pillHeight / 2);
+  ctx.stroke();
+  ctx.fillStyle = style.mutedTextColor;
+  ctx.fillText(periodText, x + pillPadding, centerY);
+  x += pillWidth + config.GAP;
+
+  // Token name, truncated to fit before the last price
+  ctx.font = `${subtitleFontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+  const nameText = truncateText(ctx, header.name, priceLeft - x);
+  if (nameText) {
+    ctx.fillText(nameText, x, centerY);
+  }
+
+  ctx.restore();
+  logger.debug(`Drew header for ${header.symbol}`);
+}
+
+/**
+ * Format PnL percentage with sign, e.g. "+184.2%"
+ */
+function formatPnLPercent(percent: number, locale: string): string {
+  const sign = percent > 0 ? "+" : percent < 0 ? "-" : "";
+  return `${sign}${formatFixed(Math.abs(percent), Math.abs(percent) >= 1000 ? 0 : 1, locale)}%`;
+}
+
+/**
+ * Format absolute USD PnL with sign, e.g. "+$1,234.56"
+ */
+function formatPnLAmount(amount: number, locale: string): string {
+  const sign = amount > 0 ? "+" : amount < 0 ? "-" : "";
+  return `${sign}$${formatFixed(Math.abs(amount), 2, locale)}`;
+}
+
+/**
+ * Draw PnL badge in the top-left corner of the plot area
+ * Headline shows PnL % (with leverage, e.g. "+184.2% · 10x"), colored by sign;
+ * the secondary line shows the position side colored by direction and the absolute USD PnL
+ */
+function drawPnLBadge(
+  ctx: CanvasRenderingContext2D,
+  summary: PnLSummary,
+  isBullish: boolean,
+  axisFontSize: number,
+  padding: ChartPadding,
+  style: ChartStyle,
+  dpr: number,
+  locale: string,
+): void {
+  const badge = CHART_STYLE.PNL_BADGE;
+  const fontSize = axisFontSize * badge.FONT_SCALE;
+  const subFontSize = fontSize * badge.SUB_FONT_SCALE;
+  const innerPadding = badge.PADDING * dpr;
+  const lineGap = subFontSize * 0.4;
+
+  const pnlColor = summary.percent >= 0 ? style.profitColor : style.lossColor;
+  const sideColor = isBullish ? style.candleUpColor : style.candleDownColor;
+  const headline =
+    summary.leverage !== 1
+      ? `${formatPnLPercent(summary.percent, locale)} · ${summary.leverage}x`
+      : formatPnLPercent(summary.percent, locale);
+  const sideText = isBullish ? "LONG" : "SHORT";
+  const amountText = summary.absolute !== undefined ? `  ${formatPnLAmount(summary.absolute, locale)}` : "";
+
+  ctx.save();
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+
+  // Measure both lines to size the badge
+  ctx.font = `bold ${fontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+  const headlineWidth = ctx.measureText(headline).width;
+  ctx.font = `bold ${subFontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+  const sideWidth = ctx.measureText(sideText).width;
+  const amountWidth = amountText ? ctx.measureText(amountText).width : 0;
+
+  const badgeX = padding.l + badge.MARGIN * dpr;
+  const badgeY = padding.t + badge.MARGIN * dpr;
+  const badgeWidth = Math.max(headlineWidth, sideWidth + amountWidth) + innerPadding * 2;
+  const badgeHeight = fontSize + lineGap + subFontSize + innerPadding * 2;
+
+  ctx.fillStyle = style.badgeBackgroundColor;
+  pathRoundedRect(ctx, badgeX, badgeY, badgeWidth, badgeHeight, badge.RADIUS * dpr);
+  ctx.fill();
+  ctx.strokeStyle = hexToRgba(pnlColor, 0.5);
+  ctx.lineWidth = 1;
+  ctx.stroke();
+
+  // Headline with neon glow
+  ctx.font = `bold ${fontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+  ctx.fillStyle = pnlColor;
+  ctx.shadowColor = pnlColor;
+  ctx.shadowBlur = badge.GLOW_BLUR * style.glowStrength;
+  ctx.fillText(headline, badgeX + innerPadding, badgeY + innerPadding);
+  ctx.shadowBlur = 0;
+
+  // Side and absolute PnL
+  const subY = badgeY + innerPadding + fontSize + lineGap;
+  ctx.font = `bold ${subFontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+  ctx.fillStyle = sideColor;
+  ctx.fillText(sideText, badgeX + innerPadding, subY);
+
+  if (amountText) {
+    ctx.fillStyle = pnlColor;
+    ctx.fillText(amountText, badgeX + innerPadding + sideWidth, subY);
+  }
+
+  ctx.restore();
+  logger.debug(`Drew PnL badge: ${headline}${amountText}`);
+}
+
+/**
+ * Draw volume histogram panel beneath the price area
+ * Points are merged into bars at least CANDLES.MIN_SPACING wide, summing volume per bar.
+ * Bars after `revealUntil` are skipped, keeping the height scale of the full window for animation frames
+ */
+function drawVolumePanel(
+  ctx: CanvasRenderingContext2D,
+  points: readonly Point[],
+  revealUntil: number,
+  xScale: (timestamp: number) => number,
+  panel: VolumePanelLayout,
+  width: number,
+  height: number,
+  padding: ChartPadding,
+  style: ChartStyle,
+): void {
+  const plotWidth = width - padding.l - padding.r;
+  const panelBottom = height - padding.b;
+  const panelTop = panelBottom - panel.height;
+  const bars = downsampleCandles(
+    points.map(toCandle),
+    calculateCandleCount(plotWidth, CHART_STYLE.CANDLES.MIN_SPACING),
+  );
+  const maxVolume = bars.reduce((max, bar) => Math.max(max, bar.v), 0);
+
+  ctx.save();
+
+  // Separator between price area and volume panel
+  ctx.strokeStyle = style.gridColor;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(padding.l, Math.round(panelTop) + 0.5);
+  ctx.lineTo(width - padding.r, Math.round(panelTop) + 0.5);
+  ctx.stroke();
+
+  if (maxVolume <= 0) {
+    ctx.restore();
+    logger.debug("Skipped volume bars: no volume data");
+    return;
+  }
+
+  // Keep bars inside the plot area even when the first/last bar is centered on the edge
+  ctx.beginPath();
+  ctx.rect(padding.l, panelTop, plotWidth, panel.height);
+  ctx.clip();
+
+  const barWidth = Math.max(1, (plotWidth / bars.length) * CHART_STYLE.CANDLES.BODY_WIDTH_RATIO);
+
+  for (const bar of bars) {
+    if (bar.t > revealUntil) break;
+
+    const barHeight = (bar.v / maxVolume) * panel.height;
+    const color = bar.y >= bar.o ? style.candleUpColor : style.candleDownColor;
+
+    ctx.fillStyle = hexToRgba(color, CHART_STYLE.VOLUME.BAR_ALPHA);
+    ctx.fillRect(xScale(bar.t) - barWidth / 2, panelBottom - barHeight, barWidth, barHeight);
+  }
+
+  ctx.restore();
+  logger.debug(`Drew volume panel with ${bars.length} bars`);
+}
+
+/**
+ * Get the color of the indicator at the given position
+ */
+function getIndicatorColor(style: ChartStyle, index: number): string {
+  return style.indicatorColors[index % style.indicatorColors.length] ?? style.lineColor;
+}
+
+/**
+ * Add a polyline through the points to the current path
+ * Starts a new subpath unless `connect` is set, in which case the first point continues the current one
+ */
+function tracePath(
+  ctx: CanvasRenderingContext2D,
+  points: readonly Point[],
+  scaledData: ScaledChartData,
+  connect = false,
+): void {
+  points.forEach((point, index) => {
+    const x = scaledData.xScale(point.t);
+    const y = scaledData.yScale(point.y);
+    if (index === 0 && !connect) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+  });
+}
+
+/**
+ * Draw indicator lines clipped to the price area; Bollinger Bands get a translucent fill between the bands
+ */
+function drawIndicators(
+  ctx: CanvasRenderingContext2D,
+  indicators: readonly IndicatorOverlay[],
+  scaledData: ScaledChartData,
+  width: number,
+  height: number,
+  padding: ChartPadding,
+  style: ChartStyle,
+): void {
+  const config = CHART_STYLE.INDICATORS;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(padding.l, padding.t, width - padding.l - padding.r, height - padding.t - padding.b);
+  ctx.clip();
+  ctx.lineWidth = config.LINE_WIDTH;
+  ctx.lineJoin = "round";
+
+  indicators.forEach((indicator, index) => {
+    const color = getIndicatorColor(style, index);
+    const first = indicator.lines[0];
+    const last = indicator.lines[indicator.lines.length - 1];
+
+    if (indicator.band && first && last) {
+      ctx.fillStyle = hexToRgba(color, config.BAND_ALPHA);
+      ctx.beginPath();
+      tracePath(ctx, first, scaledData);
+      tracePath(ctx, [...last].reverse(), scaledData, true);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    ctx.strokeStyle = hexToRgba(color, config.LINE_ALPHA);
+    for (const line of indicator.lines) {
+      ctx.beginPath();
+      tracePath(ctx, line, scaledData);
+      ctx.stroke();
+    }
+  });
+
+  ctx.restore();
+  logger.debug(`Drew ${indicators.length} indicators`);
+}
+
+/**
+ * Draw a legend in the top-right corner of the price area, one entry per label in the indicator palette order
+ */
+function drawLegend(
+  ctx: CanvasRenderingContext2D,
+  labels: readonly string[],
+  width: number,
+  padding: ChartPadding,
+  style: ChartStyle,
+  dpr: number,
+  fontSize: number,
+): void {
+  const config = CHART_STYLE.INDICATORS;
+  const lineHeight = fontSize * 1.4;
+  const swatchWidth = config.LEGEND_SWATCH * dpr;
+  const right = width - padding.r - config.LEGEND_MARGIN * dpr;
+
+  ctx.save();
+  ctx.font = `${fontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+  ctx.textAlign = "right";
+  ctx.textBaseline = "middle";
+  ctx.lineWidth = config.LINE_WIDTH;
+
+  labels.forEach((label, index) => {
+    const color = getIndicatorColor(style, index);
+    const y = padding.t + config.LEGEND_MARGIN * dpr + lineHeight * (index + 0.5);
+    const textWidth = ctx.measureText(label).width;
+
+    ctx.fillStyle = style.textColor;
+    ctx.fillText(label, right, y);
+
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(right - textWidth - swatchWidth - 4, y);
+    ctx.lineTo(right - textWidth - 4, y);
+    ctx.stroke();
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Get padding for the price area, reserving room for the header at the top
+ * and the volume panel at the bottom
+ */
+function getPricePadding(
+  padding: ChartPadding,
+  volumePanel: VolumePanelLayout | null,
+  header: HeaderLayout | null,
+): ChartPadding {
+  return {
+    ...padding,
+    t: padding.t + (header?.height ?? 0),
+    b: padding.b + (volumePanel ? volumePanel.height + volumePanel.gap : 0),
+  };
+}
+
+/**
+ * Draw dotted lines across gaps, from the end of each run to the start of the next
+ */
+function drawGapBridges(
+  ctx: CanvasRenderingContext2D,
+  runs: readonly (readonly Coordinate[])[],
+  color: string,
+  dpr: number,
+): void {
+  const config = CHART_STYLE.GAPS;
+
+  ctx.save();
+  ctx.setLineDash(config.BRIDGE_DASH.map((segment) => segment * dpr));
+  ctx.lineWidth = config.BRIDGE_WIDTH * dpr;
+  ctx.lineCap = "round";
+  ctx.strokeStyle = hexToRgba(color, config.BRIDGE_ALPHA);
+
+  for (let i = 1; i < runs.length; i++) {
+    const previous = runs[i - 1] ?? [];
+    const from = previous[previous.length - 1];
+    const to = runs[i]?.[0];
+    if (!from || !to) continue;
+
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  }
+
+  ctx.restore();
+  logger.debug(`Drew ${runs.length - 1} gap bridges`);
+}
+
+/**
+ * Draw the line series with its area fill, broken into runs at data gaps so outages do not look like price moves
+ */
+function drawLineSeries(
+  ctx: CanvasRenderingContext2D,
+  points: readonly Point[],
+  scaledData: ScaledChartData,
+  gaps: readonly DataGap[],
+  gapMode: GapMode,
+  style: ChartStyle,
+  strokes: readonly NeonStrokeConfig[],
+  height: number,
+  padding: ChartPadding,
+  dpr: number,
+): void {
+  const { coordinates } = scaledData;
+  const bounds = [0, ...findGapBreaks(points, gaps), coordinates.length];
+  const runs = bounds.slice(1).map((end, index) => coordinates.slice(bounds[index], end));
+
+  for (const run of runs) {
+    drawAreaFill(ctx, run, height, padding, style.lineColor);
+  }
+  if (gapMode === "bridge" && runs.length > 1) {
+    drawGapBridges(ctx, runs, style.lineColor, dpr);
+  }
+  for (const run of runs) {
+    drawChartLine(ctx, run, style.lineColor, strokes);
+  }
+}
+
+/**
+ * Draw the price series in the requested rendering mode
+ * Gaps only affect lines; candles and bars leave the missing time empty
+ */
+function drawPriceSeries(
+  ctx: CanvasRenderingContext2D,
+  points: readonly Point[],
+  scaledData: ScaledChartData,
+  chartType: ChartType,
+  chartData: Pick<ChartData, "gaps" | "gapMode">,
+  style: ChartStyle,
+  height: number,
+  padding: ChartPadding,
+  dpr: number,
+): void {
+  const strokes = scaleNeonGlow(NEON_STROKES, style.glowStrength);
+
+  switch (chartType) {
+    case "candles":
+      drawCandles(ctx, points, scaledData, style, strokes);
+      return;
+    case "ohlc-bars":
+      drawOHLCBars(ctx, points, scaledData, style, strokes);
+      return;
+    case "line": {
+      const gapMode = chartData.gapMode ?? DEFAULT_GAP_MODE;
+      drawLineSeries(ctx, points, scaledData, chartData.gaps ?? [], gapMode, style, strokes, height, padding, dpr);
+      return;
+    }
+  }
+}
+
+/**
+ * Determine chart style from the theme, market sentiment and per-request overrides
+ * The line and entry colors follow the (possibly overridden) candle color of the position side
+ */
+function getChartStyle(
+  isBullish: boolean,
+  theme: ThemeName = DEFAULT_THEME,
+  overrides: ChartStyleOverrides = {},
+): ChartStyle {
+  const { backgroundColor, levelColors, lineColor, entryLineColor, ...colors } = overrides;
+  const palette = { ...CHART_THEMES[theme], ...colors };
+  const seriesColor = lineColor ?? (isBullish ? palette.candleUpColor : palette.candleDownColor);
+
+  return {
+    ...palette,
+    lineColor: seriesColor,
+    entryLineColor: entryLineColor ?? seriesColor,
+    backgroundColor: { ...palette.backgroundColor, ...backgroundColor },
+    levelColors: { ...palette.levelColors, ...levelColors },
+  };
+}
+
+/**
+ * Create default chart configuration; padding, fonts and tick density follow the canvas aspect ratio
+ */
+export function createDefaultChartConfig(
+  width: number,
+  height: number,
+  dpr: number,
+  options: ChartConfigOptions = {},
+): ChartConfig {
+  return {
+    dimensions: {
+      width,
+      height,
+      dpr,
+    },
+    ...computeChartLayout(width, height, dpr, options),
+    style: getChartStyle(true, options.theme, options.styleOverrides), // Will be overridden based on actual data
+    theme: options.theme ?? DEFAULT_THEME,
+    styleOverrides: options.styleOverrides,
+    downsampleWidth: Math.round(width * 2),
+    chartType: options.chartType ?? "line",
+    yScaleMode: options.yScaleMode ?? "linear",
+    labelFormat: resolveLabelFormat(options.locale, options.timeZone, options.priceDigits),
+    sparkline: false,
+  };
+}
+
+/**
+ * Create chart configuration for sparklines: uniform small padding, no header or volume panel,
+ * and downsampling to about one point per device pixel
+ */
+export function createSparklineChartConfig(
+  width: number,
+  height: number,
+  dpr: number,
+  options: Pick<ChartConfigOptions, "theme" | "styleOverrides"> = {},
+): ChartConfig {
+  const config = CHART_STYLE.SPARKLINE;
+
+  return {
+    ...createDefaultChartConfig(width, height, dpr, options),
+    padding: { l: config.PADDING, r: config.PADDING, t: config.PADDING, b: config.PADDING },
+    downsampleWidth: calculateOptimalDownsampleWidth(width, dpr, config.DOWNSAMPLE_MULTIPLIER),
+    sparkline: true,
+  };
+}
+
+/**
+ * Create and setup canvas for chart rendering
+ */
+export function setupChartCanvas(
+  width: number,
+  height: number,
+  dpr: number,
+): { canvas: Canvas; ctx: CanvasRenderingContext2D } {
+  const canvas = createCanvas(Math.round(width * dpr), Math.round(height * dpr));
+  const ctx = getContext(canvas);
+
+  // Set up high-DPI rendering
+  ctx.scale(dpr, dpr);
+
+  return { canvas, ctx };
+}
+
+/**
+ * Get the points revealed so far; all points unless the chart is an animation frame
+ */
+function getRevealedPoints(chartData: ChartData): readonly Point[] {
+  const { points, revealUntil } = chartData;
+  if (revealUntil === undefined) return points;
+  return points.filter((point) => point.t <= revealUntil);
+}
+
+/**
+ * Get the latest displayed price: the raw last price for full charts, the price at the cutoff for animation frames
+ */
+function getLastPrice(chartData: ChartData, revealedPoints: readonly Point[]): number {
+  if (revealedPoints.length < chartData.points.length) {
+    return revealedPoints[revealedPoints.length - 1]?.y ?? chartData.entryPrice;
+  }
+  return chartData.lastPrice ?? chartData.points[chartData.points.length - 1]?.y ?? chartData.entryPrice;
+}
+
+/**
+ * Calculate PnL from the entry price to the last displayed price
+ */
+function getPnLSummary(
+  chartData: ChartData,
+  options: PnLBadgeOptions,
+  markers: readonly PositionMarker[],
+  lastPrice: number,
+): PnLSummary {
+  // Closed positions report realized PnL at the exit price
+  const closePrice = markers.find((marker) => marker.kind === "exit")?.price ?? lastPrice;
+  return calculatePnL(chartData.entryPrice, closePrice, chartData.isBullish, options.leverage, options.positionSize);
+}
+
+/**
+ * Trim indicator lines to the points revealed so far
+ */
+function revealIndicators(indicators: readonly IndicatorOverlay[], revealUntil: number): IndicatorOverlay[] {
+  return indicators.map((indicator) => ({
+    ...indicator,
+    lines: indicator.lines.map((line) => line.filter((point) => point.t <= revealUntil)),
+  }));
+}
+
+/**
+ * Resolve entry/exit markers from the position times, snapped to the nearest rendered point
+ * The exit price defaults to the price at the exit point
+ */
+function getPositionMarkers(chartData: ChartData): PositionMarker[] {
+  const markers: PositionMarker[] = [];
+
+  const entryPoint =
+    chartData.entryTime !== undefined ? findNearestPoint(chartData.points, chartData.entryTime) : undefined;
+  if (entryPoint) {
+    markers.push({ kind: "entry", t: entryPoint.t, price: chartData.entryPrice });
+  }
+
+  const exitPoint =
+    chartData.exitTime !== undefined ? findNearestPoint(chartData.points, chartData.exitTime) : undefined;
+  if (exitPoint) {
+    markers.push({ kind: "exit", t: exitPoint.t, price: chartData.exitPrice ?? exitPoint.y });
+  }
+
+  return markers;
+}
+
+/**
+ * Shade the holding period from the entry to the exit (or the last point for open positions)
+ */
+function drawHoldingPeriod(
+  ctx: CanvasRenderingContext2D,
+  markers: readonly PositionMarker[],
+  points: readonly Point[],
+  xScale: (timestamp: number) => number,
+  height: number,
+  padding: ChartPadding,
+  style: ChartStyle,
+): void {
+  const entry = markers.find((marker) => marker.kind === "entry");
+  const endTime = markers.find((marker) => marker.kind === "exit")?.t ?? points[points.length - 1]?.t;
+  if (!entry || endTime === undefined) return;
+
+  const startX = xScale(entry.t);
+  const endX = xScale(endTime);
+
+  ctx.save();
+  ctx.fillStyle = hexToRgba(style.lineColor, CHART_STYLE.POSITION_MARKERS.HOLDING_ALPHA);
+  ctx.fillRect(Math.min(startX, endX), padding.t, Math.abs(endX - startX), height - padding.t - padding.b);
+  ctx.restore();
+
+  logger.debug("Drew holding period shading");
+}
+
+/**
+ * Draw entry (filled dot) and exit (ring colored by realized PnL) markers with a neon glow
+ */
+function drawPositionMarkers(
+  ctx: CanvasRenderingContext2D,
+  markers: readonly PositionMarker[],
+  scaledData: ScaledChartData,
+  entryPrice: number,
+  isBullish: boolean,
+  style: ChartStyle,
+  dpr: number,
+): void {
+  const config = CHART_STYLE.POSITION_MARKERS;
+  const radius = config.DOT_RADIUS * dpr;
+
+  for (const marker of markers) {
+    const x = scaledData.xScale(marker.t);
+    const y = scaledData.yScale(marker.price);
+    const isProfit = isBullish ? marker.price >= entryPrice : marker.price <= entryPrice;
+    const color = marker.kind === "entry" ? style.entryLineColor : isProfit ? style.profitColor : style.lossColor;
+
+    ctx.save();
+    ctx.shadowColor = color;
+    ctx.shadowBlur = config.GLOW_BLUR * style.glowStrength;
+    ctx.lineWidth = config.RING_WIDTH;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+
+    if (marker.kind === "entry") {
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.shadowBlur = 0;
+      ctx.strokeStyle = style.textColor;
+    } else {
+      ctx.fillStyle = style.backgroundColor.end;
+      ctx.fill();
+      ctx.strokeStyle = color;
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  logger.debug(`Drew ${markers.length} position markers`);
+}
+
+/**
+ * Draw buy fills as up triangles below their price and sell fills as down triangles above it, tips at the price
+ * Triangle width follows the square root of the size relative to the largest trade, so sizes stay fixed across
+ * animation frames; trades after `revealUntil` are skipped
+ */
+function drawTradeMarkers(
+  ctx: CanvasRenderingContext2D,
+  trades: readonly Trade[],
+  revealUntil: number,
+  scaledData: ScaledChartData,
+  style: ChartStyle,
+  dpr: number,
+): void {
+  if (trades.length === 0) return;
+
+  const config = CHART_STYLE.TRADES;
+  const maxSize = Math.max(...trades.map((trade) => trade.size));
+
+  ctx.save();
+  ctx.lineWidth = config.OUTLINE_WIDTH * dpr;
+  ctx.lineJoin = "round";
+  ctx.strokeStyle = style.backgroundColor.end;
+
+  for (const trade of trades) {
+    if (trade.time > revealUntil) continue;
+
+    const halfWidth = (config.MIN_SIZE + (config.MAX_SIZE - config.MIN_SIZE) * Math.sqrt(trade.size / maxSize)) * dpr;
+    const direction = trade.side === "buy" ? 1 : -1;
+    const x = scaledData.xScale(trade.time);
+    const y = scaledData.yScale(trade.price);
+    const baseY = y + direction * halfWidth * Math.sqrt(3);
+
+    ctx.fillStyle = hexToRgba(trade.side === "buy" ? style.candleUpColor : style.candleDownColor, config.ALPHA);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + halfWidth, baseY);
+    ctx.lineTo(x - halfWidth, baseY);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  ctx.restore();
+  logger.debug(`Drew ${trades.length} trade markers`);
+}
+
+/**
+ * Keep the annotations that have happened by the animation cutoff; ranges are cut off at it
+ */
+function revealAnnotations(annotations: readonly Annotation[], revealUntil: number): Annotation[] {
+  return annotations.flatMap((annotation): Annotation[] => {
+    if (annotation.type === "hline") return [annotation];
+    if (annotation.time > revealUntil) return [];
+    return annotation.type === "range"
+      ? [{ ...annotation, endTime: Math.min(annotation.endTime, revealUntil) }]
+      : [annotation];
+  });
+}
+
+/**
+ * Prices of horizontal lines and callouts, which must stay inside the y-range
+ */
+function getAnnotationPrices(annotations: readonly Annotation[]): number[] {
+  return annotations.flatMap((annotation) =>
+    annotation.type === "hline" || annotation.type === "callout" ? [annotation.price] : [],
+  );
+}
+
+/**
+ * Draw shaded time ranges and dashed horizontal and vertical annotation lines, clipped to the price area
+ */
+function drawAnnotationShapes(
+  ctx: CanvasRenderingContext2D,
+  annotations: readonly Annotation[],
+  scaledData: ScaledChartData,
+  width: number,
+  height: number,
+  padding: ChartPadding,
+  style: ChartStyle,
+  dpr: number,
+): void {
+  const config = CHART_STYLE.ANNOTATIONS;
+  const plotHeight = height - padding.t - padding.b;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(padding.l, padding.t, width - padding.l - padding.r, plotHeight);
+  ctx.clip();
+  ctx.setLineDash(config.LINE_DASH.map((segment) => segment * dpr));
+  ctx.lineWidth = dpr;
+
+  for (const annotation of annotations) {
+    const color = annotation.color ?? style.levelColors.custom;
+    ctx.fillStyle = hexToRgba(color, config.RANGE_ALPHA);
+    ctx.strokeStyle = hexToRgba(color, config.LINE_ALPHA);
+    ctx.beginPath();
+
+    switch (annotation.type) {
+      case "range": {
+        const startX = scaledData.xScale(annotation.time);
+        ctx.fillRect(startX, padding.t, scaledData.xScale(annotation.endTime) - startX, plotHeight);
+        break;
+      }
+      case "hline": {
+        const y = scaledData.yScale(annotation.price);
+        ctx.moveTo(padding.l, y);
+        ctx.lineTo(width - padding.r, y);
+        ctx.stroke();
+        break;
+      }
+      case "vline": {
+        const x = scaledData.xScale(annotation.time);
+        ctx.moveTo(x, padding.t);
+        ctx.lineTo(x, height - padding.b);
+        ctx.stroke();
+        break;
+      }
+      case "callout":
+        break;
+    }
+  }
+
+  ctx.restore();
+  logger.debug(`Drew ${annotations.length} annotation shapes`);
+}
+
+/**
+ * Label box of a callout, centered above its point or below it when there is no room at the top
+ */
+function getCalloutLabelBox(
+  annotation: Extract<Annotation, { type: "callout" }>,
+  scaledData: ScaledChartData,
+  boxWidth: number,
+  labelHeight: number,
+  right: number,
+  padding: ChartPadding,
+  dpr: number,
+): Omit<AnnotationLabelBox, "text" | "color" | "width"> | null {
+  const anchor = { x: scaledData.xScale(annotation.time), y: scaledData.yScale(annotation.price) };
+  if (anchor.x < padding.l || anchor.x > right) return null;
+
+  const offset = CHART_STYLE.ANNOTATIONS.CALLOUT_OFFSET * dpr;
+  const y = anchor.y - offset - labelHeight / 2 >= padding.t ? anchor.y - offset : anchor.y + offset;
+  const x = Math.min(Math.max(anchor.x - boxWidth / 2, padding.l), right - boxWidth);
+  return { x, y, anchor };
+}
+
+/**
+ * Label box of an annotation at its preferred position, or null without text or outside the plot
+ * Line labels sit above horizontal lines and at the top of vertical lines and ranges
+ */
+function getAnnotationLabelBox(
+  ctx: CanvasRenderingContext2D,
+  annotation: Annotation,
+  scaledData: ScaledChartData,
+  width: number,
+  padding: ChartPadding,
+  labelHeight: number,
+  style: ChartStyle,
+  dpr: number,
+): AnnotationLabelBox | null {
+  if (!annotation.text) return null;
+
+  const config = CHART_STYLE.ANNOTATIONS;
+  const margin = config.LABEL_MARGIN * dpr;
+  const boxWidth = ctx.measureText(annotation.text).width + config.LABEL_PADDING * dpr * 2;
+  const right = width - padding.r;
+  const topY = padding.t + margin + labelHeight / 2;
+  const label = { text: annotation.text, color: annotation.color ?? style.levelColors.custom, width: boxWidth };
+
+  switch (annotation.type) {
+    case "hline":
+      return { ...label, x: padding.l + margin, y: scaledData.yScale(annotation.price) - labelHeight / 2 - margin };
+    case "vline": {
+      const x = scaledData.xScale(annotation.time);
+      if (x < padding.l || x > right) return null;
+      // Right of the line, flipping to the left near the right edge
+      return { ...label, x: x + margin + boxWidth <= right ? x + margin : x - margin - boxWidth, y: topY };
+    }
+    case "range": {
+      const startX = Math.max(scaledData.xScale(annotation.time), padding.l);
+      if (startX > right || scaledData.xScale(annotation.endTime) < padding.l) return null;
+      return { ...label, x: Math.min(startX + margin, right - boxWidth), y: topY };
+    }
+    case "callout": {
+      const position = getCalloutLabelBox(annotation, scaledData, boxWidth, labelHeight, right, padding, dpr);
+      return position && { ...label, ...position };
+    }
+  }
+}
+
+/**
+ * Draw the leader line from a callout label to its point and the dot at the point
+ */
+function drawCalloutPointer(
+  ctx: CanvasRenderingContext2D,
+  box: AnnotationLabelBox,
+  anchor: Coordinate,
+  labelHeight: number,
+  dpr: number,
+): void {
+  const edgeX = Math.min(Math.max(anchor.x, box.x), box.x + box.width);
+  const edgeY = box.y > anchor.y ? box.y - labelHeight / 2 : box.y + labelHeight / 2;
+
+  ctx.strokeStyle = box.color;
+  ctx.lineWidth = dpr;
+  ctx.beginPath();
+  ctx.moveTo(anchor.x, anchor.y);
+  ctx.lineTo(edgeX, edgeY);
+  ctx.stroke();
+
+  ctx.fillStyle = box.color;
+  ctx.beginPath();
+  ctx.arc(anchor.x, anchor.y, CHART_STYLE.ANNOTATIONS.DOT_RADIUS * dpr, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+/**
+ * Draw annotation labels in boxes outlined in the annotation color
+ * Each label moves vertically off the labels already placed over the same x-range, in request order
+ */
+function drawAnnotationLabels(
+  ctx: CanvasRenderingContext2D,
+  annotations: readonly Annotation[],
+  scaledData: ScaledChartData,
+  width: number,
+  height: number,
+  padding: ChartPadding,
+  fontSize: number,
+  style: ChartStyle,
+  dpr: number,
+): void {
+  const config = CHART_STYLE.ANNOTATIONS;
+  const labelPadding = config.LABEL_PADDING * dpr;
+  const labelHeight = fontSize + labelPadding * 2;
+
+  ctx.save();
+  ctx.font = `${fontSize}px ${CHART_STYLE.FONT_FAMILY}`;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+
+  const placed: AnnotationLabelBox[] = [];
+  for (const annotation of annotations) {
+    const box = getAnnotationLabelBox(ctx, annotation, scaledData, width, padding, labelHeight, style, dpr);
+    if (!box) continue;
+
+    const overlapping = placed.filter((other) => other.x < box.x + box.width && box.x < other.x + other.width);
+    const placedYs = overlapping.map((other) => other.y);
+    placed.push({ ...box, y: findFreeLabelPosition(box.y, placedYs, labelHeight + 1, padding.t, height - padding.b) });
+  }
+
+  for (const box of placed) {
+    if (box.anchor) drawCalloutPointer(ctx, box, box.anchor, labelHeight, dpr);
+
+    ctx.fillStyle = style.badgeBackgroundColor;
+    ctx.strokeStyle = box.color;
+    ctx.lineWidth = dpr;
+    pathRoundedRect(ctx, box.x, box.y - labelHeight / 2, box.width, labelHeight, config.LABEL_RADIUS * dpr);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = style.textColor;
+    ctx.fillText(box.text, box.x + labelPadding, box.y);
+  }
+
+  ctx.restore();
+  logger.debug(`Drew ${placed.length} annotation labels`);
+}
+
+/**
+ * Render a sparkline: a single line with area fill colored by the period change (isBullish),
+ * without axes, grid, price levels or labels
+ */
+function renderSparkline(ctx: CanvasRenderingContext2D, chartData: ChartData, config: ChartConfig): void {
+  const { dimensions, padding } = config;
+  const style = getChartStyle(chartData.isBullish, config.theme, config.styleOverrides);
+  const scaledData = scalePointsToCanvas({
+    points: chartData.points,
+    canvasWidth: dimensions.width,
+    canvasHeight: dimensions.height,
+    padding,
+    chartType: "line",
+  });
+
+  // Full-size glow layers would swallow a 40px tall chart
+  const scale = CHART_STYLE.SPARKLINE.STROKE_SCALE;
+  const strokes = scaleNeonGlow(NEON_STROKES, style.glowStrength).map((stroke) => ({
+    ...stroke,
+    width: stroke.width * scale,
+    blur: stroke.blur * scale,
+  }));
+
+  drawBackground(ctx, dimensions.width, dimensions.height, style);
+  drawAreaFill(ctx, scaledData.coordinates, dimensions.height, padding, style.lineColor);
+  drawChartLine(ctx, scaledData.coordinates, style.lineColor, strokes);
+}
+
+/**
+ * Main chart rendering function - with axes support
+ */
+export function renderChart(ctx: CanvasRenderingContext2D, chartData: ChartData, config: ChartConfig): void {
+  if (config.sparkline) {
+    renderSparkline(ctx, chartData, config);
+    return;
+  }
+
+  const { dimensions, padding, chartType, volumePanel, header, labelFormat, fontSize } = config;
+
+  // Use logical dimensions for coordinate calculations (not scaled by DPR)
+  const canvasWidth = dimensions.width;
+  const canvasHeight = dimensions.height;
+
+  // Update style based on market sentiment
+  const style = getChartStyle(chartData.isBullish, config.theme, config.styleOverrides);
+
+  // Price area shrinks to make room for the optional volume panel; the time axis stays at the bottom
+  const pricePadding = getPricePadding(padding, volumePanel, header);
+
+  // Entry line plus any additional TP/SL/liquidation/custom levels
+  const entryLevel: PriceLevel = { type: "entry", price: chartData.entryPrice };
+  const priceLevels = [entryLevel, ...(chartData.priceLevels ?? [])].map((level) => resolvePriceLevel(level, style));
+  const markers = getPositionMarkers(chartData);
+  const annotations = chartData.annotations ?? [];
+  const trades = chartData.trades ?? [];
+
+  // Scale points to canvas coordinates using logical dimensions
+  const scaledData = scalePointsToCanvas({
+    points: chartData.points,
+    canvasWidth,
+    canvasHeight,
+    padding: pricePadding,
+    chartType,
+    yScaleMode: config.yScaleMode,
+    extraValues: [...priceLevels, ...markers, ...trades]
+      .map((item) => item.price)
+      .concat(getAnnotationPrices(annotations)),
+  });
+
+  // Animation frames draw the series up to the cutoff on axes scaled for the full window
+  const revealUntil = chartData.revealUntil ?? Number.POSITIVE_INFINITY;
+  const revealedPoints = getRevealedPoints(chartData);
+  const revealedData = { ...scaledData, coordinates: scaledData.coordinates.slice(0, revealedPoints.length) };
+  const revealedMarkers = markers.filter((marker) => marker.t <= revealUntil);
+  const revealedAnnotations = revealAnnotations(annotations, revealUntil);
+  const lastPrice = getLastPrice(chartData, revealedPoints);
+  const lastPriceLevel: ResolvedPriceLevel = {
+    price: lastPrice,
+    color: style.lineColor,
+    dash: CHART_STYLE.LAST_PRICE.LINE_DASH,
+    label: "",
+  };
+  const lineLevels = chartData.showLastPriceLine ? [...priceLevels, lastPriceLevel] : priceLevels;
+
+  // Render all chart elements in order
+  drawBackground(ctx, canvasWidth, canvasHeight, style);
+
+  // Tick counts adapt to the plot size so axis labels never overlap; the grid sits on the same ticks
+  const plotHeight = canvasHeight - pricePadding.t - pricePadding.b;
+  const plotWidth = canvasWidth - padding.l - padding.r;
+  const maxYTicks = getMaxYTicks(plotHeight, fontSize, config.minLabelSpacing);
+  const yTicks = getYAxisTicks(
+    scaledData.yMin,
+    scaledData.yMax,
+    config.yScaleMode,
+    chartData.entryPrice,
+    maxYTicks,
+    labelFormat.locale,
+  );
+  const xTicks = getXAxisTicks(ctx, chartData.points, plotWidth, fontSize, dimensions.dpr, labelFormat);
+  const priceFormat: PriceFormatOptions = {
+    locale: labelFormat.locale,
+    significantDigits: labelFormat.significantDigits,
+  };
+  drawGrid(
+    ctx,
+    canvasWidth,
+    canvasHeight,
+    pricePadding,
+    style,
+    yTicks.ticks.map(scaledData.yScale),
+    xTicks.ticks.map(scaledData.xScale),
+  );
+
+  // Draw axes
+  drawYAxis(ctx, yTicks, scaledData.yScale, pricePadding, canvasWidth, dimensions.dpr, fontSize, style);
+  drawXAxis(ctx, xTicks, scaledData.xScale, padding, canvasHeight, dimensions.dpr, fontSize, style);
+
+  drawHoldingPeriod(ctx, revealedMarkers, revealedPoints, scaledData.xScale, canvasHeight, pricePadding, style);
+  drawPriceLevelLines(ctx, lineLevels, canvasWidth, pricePadding, scaledData.yScale, dimensions.dpr);
+  drawAnnotationShapes(
+    ctx,
+    revealedAnnotations,
+    scaledData,
+    canvasWidth,
+    canvasHeight,
+    pricePadding,
+    style,
+    dimensions.dpr,
+  );
+  drawPriceSeries(
+    ctx,
+    revealedPoints,
+    revealedData,
+    chartType,
+    chartData,
+    style,
+    canvasHeight,
+    pricePadding,
+    dimensions.dpr,
+  );
+
+  if (chartData.indicators && chartData.indicators.length > 0) {
+    const indicators = revealIndicators(chartData.indicators, revealUntil);
+    drawIndicators(ctx, indicators, scaledData, canvasWidth, canvasHeight, pricePadding, style);
+    const labels = indicators.map((indicator) => indicator.label);
+    drawLegend(ctx, labels, canvasWidth, pricePadding, style, dimensions.dpr, fontSize);
+  }
+
+  drawTradeMarkers(ctx, trades, revealUntil, scaledData, style, dimensions.dpr);
+  drawPositionMarkers(
+    ctx,
+    revealedMarkers,
+    scaledData,
+    chartData.entryPrice,
+    chartData.isBullish,
+    style,
+    dimensions.dpr,
+  );
+  drawAnnotationLabels(
+    ctx,
+    revealedAnnotations,
+    scaledData,
+    canvasWidth,
+    canvasHeight,
+    pricePadding,
+    fontSize,
+    style,
+    dimensions.dpr,
+  );
+
+  const endPoint = revealedData.coordinates[revealedData.coordinates.length - 1];
+  if (endPoint) {
+    const phase = chartData.pulsePhase ?? CHART_STYLE.LAST_PRICE.PULSE_PHASE;
+    drawLastPriceDot(ctx, endPoint, phase, style, dimensions.dpr);
+  }
+
+  drawPriceTags(
+    ctx,
+    priceLevels,
+    lastPriceLevel,
+    canvasWidth,
+    canvasHeight,
+    pricePadding,
+    scaledData.yScale,
+    dimensions.dpr,
+    fontSize,
+    style,
+    priceFormat,
+  );
+
+  if (volumePanel) {
+    drawVolumePanel(
+      ctx,
+      chartData.points,
+      revealUntil,
+      scaledData.xScale,
+      volumePanel,
+      canvasWidth,
+      canvasHeight,
+      padding,
+      style,
+    );
+  }
+
+  if (header && chartData.header) {
+    drawHeader(ctx, chartData.header, lastPrice, header, canvasWidth, padding, style, priceFormat);
+  }
+
+  if (chartData.pnlBadge) {
+    const summary = getPnLSummary(chartData, chartData.pnlBadge, revealedMarkers, lastPrice);
+    drawPnLBadge(ctx, summary, chartData.isBullish, fontSize, pricePadding, style, dimensions.dpr, labelFormat.locale);
+  }
+
+  logger.info(`Rendered ${chartType} chart with ${chartData.points.length} points, bullish: ${chartData.isBullish}`);
+}
+
+/**
+ * Draw the dashed 0% line of a comparison chart
+ */
+function drawComparisonBaseline(
+  ctx: CanvasRenderingContext2D,
+  y: number,
+  width: number,
+  padding: ChartPadding,
+  style: ChartStyle,
+  dpr: number,
+): void {
+  ctx.save();
+  ctx.strokeStyle = style.mutedTextColor;
+  ctx.lineWidth = 1;
+  ctx.setLineDash(CHART_STYLE.COMPARISON.BASELINE_DASH.map((value) => value * dpr));
+  ctx.beginPath();
+  ctx.moveTo(padding.l, Math.round(y) + 0.5);
+  ctx.lineTo(width - padding.r, Math.round(y) + 0.5);
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Render a comparison chart: every series on a shared percent axis, positioned by timestamp
+ * so series with different start times or sparse data stay aligned
+ */
+export function renderComparisonChart(
+  ctx: CanvasRenderingContext2D,
+  series: readonly ComparisonSeries[],
+  config: ChartConfig,
+): void {
+  const { dimensions, padding, labelFormat, fontSize } = config;
+  const canvasWidth = dimensions.width;
+  const canvasHeight = dimensions.height;
+  const style = config.style;
+
+  // One time/value domain across all series; 0% always stays visible
+  const allPoints = series.flatMap((item) => item.points).sort((a, b) => a.t - b.t);
+  const scaledData = scalePointsToCanvas({
+    points: allPoints,
+    canvasWidth,
+    canvasHeight,
+    padding,
+    chartType: "line",
+    extraValues: [0],
+  });
+
+  const maxYTicks = getMaxYTicks(canvasHeight - padding.t - padding.b, fontSize, config.minLabelSpacing);
+  const { ticks, step } = calculateNiceTicks(scaledData.yMin, scaledData.yMax, maxYTicks);
+  const yTicks: AxisTicks = { ticks, formatLabel: (value) => formatPercentChange(value, step, labelFormat.locale) };
+  const plotWidth = canvasWidth - padding.l - padding.r;
+  const xTicks = getXAxisTicks(ctx, allPoints, plotWidth, fontSize, dimensions.dpr, labelFormat);
+
+  drawBackground(ctx, canvasWidth, canvasHeight, style);
+  drawGrid(
+    ctx,
+    canvasWidth,
+    canvasHeight,
+    padding,
+    style,
+    yTicks.ticks.map(scaledData.yScale),
+    xTicks.ticks.map(scaledData.xScale),
+  );
+  drawYAxis(ctx, yTicks, scaledData.yScale, padding, canvasWidth, dimensions.dpr, fontSize, style);
+  drawXAxis(ctx, xTicks, scaledData.xScale, padding, canvasHeight, dimensions.dpr, fontSize, style);
+  drawComparisonBaseline(ctx, scaledData.yScale(0), canvasWidth, padding, style, dimensions.dpr);
+
+  const strokes = scaleNeonGlow(NEON_STROKES, style.glowStrength).map((stroke) => ({
+    ...stroke,
+    width: Math.min(stroke.width, CHART_STYLE.COMPARISON.LINE_WIDTH * 2),
+  }));
+  series.forEach((item, index) => {
+    const coordinates = item.points.map((point) => ({ x: scaledData.xScale(point.t), y: scaledData.yScale(point.y) }));
+    drawChartLine(ctx, coordinates, getIndicatorColor(style, index), strokes);
+  });
+
+  const labels = series.map(
+    (item) => `${item.label} ${formatPercentChange(item.changePercent, 0.1, labelFormat.locale)}`,
+  );
+  drawLegend(ctx, labels, canvasWidth, padding, style, dimensions.dpr, fontSize);
+
+  logger.info(`Rendered comparison chart with ${series.length} series`);
+}
+
+/**
+ * Shorten a token address for labels, e.g. "So11…1112"
+ */
+function shortenAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+/**
+ * Load token metadata and icon for the chart header
+ * Unknown tokens and broken icons fall back to a shortened address and a generated icon
+ */
+async function loadChartHeader(config: ChartGenerationWithR2Config, periodHours: number): Promise<ChartHeader> {
+  const token = await getTokenByAddress(config.tokenAddress);
+  const icon = await loadTokenIcon(token?.iconUrl, config.iconLoader ?? createFetchIconLoader());
+
+  return {
+    symbol: token?.symbol ?? shortenAddress(config.tokenAddress),
+    name: token?.name ?? "",
+    icon,
+    periodHours,
+  };
+}
+
+/**
+ * Earliest time the chart window has to reach back to: the entry time and, when requested, the first trade
+ */
+function getWindowIncludeTime(config: ChartGenerationWithR2Config): number | undefined {
+  const tradeTimes = config.extendToTrades ? (config.trades ?? []).map((trade) => trade.time) : [];
+  const times = [config.entryTime, ...tradeTimes].filter((time): time is number => time !== undefined);
+  return times.length > 0 ? Math.min(...times) : undefined;
+}
+
+/**
+ * Keep the trades inside the fetched window; trades before it remain only when the window could be widened to them
+ */
+function getTradesInWindow(trades: readonly Trade[], points: readonly Point[]): Trade[] {
+  const firstTime = points[0]?.t ?? Number.POSITIVE_INFINITY;
+  const lastTime = points[points.length - 1]?.t ?? Number.NEGATIVE_INFINITY;
+  const visible = trades.filter((trade) => trade.time >= firstTime && trade.time <= lastTime);
+
+  if (visible.length < trades.length) {
+    logger.debug(`Dropped ${trades.length - visible.length} trades outside the chart window`);
+  }
+  return visible;
+}
+
+/**
+ * Resolve the position times against the fetched window (plus half an interval at either end)
+ * Times outside it are dropped rather than snapped to the window edge, and the exit price only defaults
+ * to the price at the exit time when that time is inside the window
+ */
+function resolvePositionTimes(
+  config: ChartGenerationWithR2Config,
+  ohlcvResult: OHLCVDataResult,
+): Pick<ChartData, "entryTime" | "exitTime" | "exitPrice"> {
+  const tolerance = (ohlcvResult.intervalMinutes * 60 * 1000) / 2;
+  const resolve = (time: number | undefined, label: string) => {
+    if (time === undefined) return undefined;
+    const point = findPointInRange(ohlcvResult.points, time, tolerance);
+    if (!point) {
+      logger.warn(`Dropped ${label} ${new Date(time).toISOString()} outside the chart window`);
+    }
+    return point;
+  };
+
+  const entryPoint = resolve(config.entryTime, "entry time");
+  const exitPoint = resolve(config.exitTime, "exit time");
+
+  return {
+    entryTime: entryPoint ? config.entryTime : undefined,
+    exitTime: exitPoint ? config.exitTime : undefined,
+    // Resolve the exit price from full-resolution data; the downsampled point may be a bin extreme
+    exitPrice: config.exitPrice ?? exitPoint?.y,
+  };
+}
+
+/**
+ * Resolve the entry price: the requested one, else the size-weighted average of the opening fills in the window
+ * Falls back to all opening fills when none of them is inside the window
+ */
+function resolveEntryPrice(config: ChartGenerationWithR2Config, tradesInWindow: readonly Trade[]): number {
+  if (config.entryPrice !== undefined) return config.entryPrice;
+
+  const windowAverage = calculateAverageEntry(tradesInWindow, config.isBullish);
+  if (windowAverage !== undefined) return windowAverage;
+
+  logger.warn("No opening fills inside the chart window; averaging all opening fills for the entry price");
+  const average = calculateAverageEntry(config.trades ?? [], config.isBullish);
+  if (average === undefined) {
+    throw new Error("entryPrice is required when trades include no opening fill");
+  }
+  return average;
+}
+
+/**
+ * Assemble chart data from the fetched points and the request's overlays
+ * `gaps` are the data gaps the line breaks at; forward-filled gaps are already closed by flat candles
+ */
+async function prepareChartData(
+  config: ChartGenerationWithR2Config,
+  ohlcvResult: OHLCVDataResult,
+  downsampledData: readonly OHLCPoint[],
+  downsampleWidth: number,
+  gaps: readonly DataGap[],
+): Promise<ChartData> {
+  const rawPoints = ohlcvResult.points;
+  const trades = getTradesInWindow(config.trades ?? [], rawPoints);
+
+  // Indicators use the full-resolution series (plus lookback) and are downsampled afterwards
+  const indicators = computeIndicators(config.indicators ?? [], rawPoints, ohlcvResult.lookback).map((indicator) => ({
+    ...indicator,
+    lines: indicator.lines.map((line) => downsampleMinMax(line, downsampleWidth)),
+  }));
+
+  return {
+    points: downsampledData,
+    entryPrice: resolveEntryPrice(config, trades),
+    isBullish: config.isBullish,
+    priceLevels: config.priceLevels,
+    pnlBadge: config.pnlBadge,
+    showLastPriceLine: config.showLastPriceLine,
+    annotations: config.annotations,
+    trades,
+    gaps,
+    gapMode: config.gapMode ?? DEFAULT_GAP_MODE,
+    // Use the raw last price; downsampling may not keep the final point's close
+    lastPrice: rawPoints[rawPoints.length - 1]?.y,
+    header: config.showHeader ? await loadChartHeader(config, ohlcvResult.periodHours) : undefined,
+    indicators,
+    ...resolvePositionTimes(config, ohlcvResult),
+  };
+}
+
+/**
+ * Validate fetched points and find missing-candle gaps
+ * In fill mode the gaps are closed with flat candles; otherwise they are returned for the line to break at
+ */
+function prepareSeriesPoints(
+  points: readonly OHLCPoint[],
+  intervalMinutes: number,
+  gapMode: GapMode = DEFAULT_GAP_MODE,
+): { points: readonly OHLCPoint[]; gaps: readonly DataGap[] } {
+  const dataValidation = validatePointData(points, intervalMinutes);
+  if (!dataValidation.isValid) {
+    throw new Error(`Invalid OHLCV data: ${dataValidation.errors.join(", ")}`);
+  }
+
+  const { gaps } = dataValidation;
+  if (gaps.length === 0) return { points, gaps };
+
+  const missingPoints = gaps.reduce((sum, gap) => sum + gap.missingPoints, 0);
+  logger.warn(`Found ${gaps.length} gaps (${missingPoints} missing candles), handled with gap mode: ${gapMode}`);
+
+  return gapMode === "fill" ? { points: forwardFillGaps(points, gaps, intervalMinutes), gaps: [] } : { points, gaps };
+}
+
+/**
+ * Downsample points for the configured chart type
+ * Lines keep per-bin extremes; candles are merged so each one stays wide enough to read
+ */
+function downsampleForChart(points: readonly OHLCPoint[], chartConfig: ChartConfig): readonly OHLCPoint[] {
+  if (chartConfig.chartType === "line") {
+    return downsampleMinMax(points, chartConfig.downsampleWidth);
+  }
+
+  const plotWidth = chartConfig.dimensions.width - chartConfig.padding.l - chartConfig.padding.r;
+  return downsampleCandles(points, calculateCandleCount(plotWidth, CHART_STYLE.CANDLES.MIN_SPACING));
+}
+
+/**
+ * Export a rendered chart using skia-canvas built-in methods
+ * Raster formats are rendered to PNG and encoded with Sharp; SVG and PDF output is used as is
+ */
+async function exportChartImage(canvas: Canvas, format: OutputFormat, quality?: number): Promise<ExportedImage> {
+  if (format === "svg" || format === "pdf") {
+    const buffer = await exportCanvas(canvas, format);
+    return { buffer, rawBytes: buffer.byteLength, frames: 1 };
+  }
+
+  const rendered = await exportCanvas(canvas, "png");
+  return {
+    buffer: await optimizeImageWithSharp(rendered, format, quality),
+    rawBytes: rendered.byteLength,
+    frames: 1,
+  };
+}
+
+/**
+ * Resolve animation defaults; the frame count is reduced so all frames stay within the pixel budget
+ * Frames share the duration evenly and the last frame is held before the loop restarts
+ */
+function resolveAnimationTiming(options: AnimationOptions, framePixels: number): AnimationTiming {
+  const budgetFrames = Math.floor(ANIMATION.MAX_TOTAL_PIXELS / framePixels);
+  if (budgetFrames < ANIMATION.MIN_FRAMES) {
+    throw new Error(`Animation frames of ${framePixels} pixels exceed the pixel budget`);
+  }
+
+  const frames = Math.min(options.frames ?? ANIMATION.DEFAULT_FRAMES, budgetFrames);
+  const durationMs = options.durationMs ?? ANIMATION.DEFAULT_DURATION_MS;
+  // GIF delays are in hundredths of a second, so round to 10ms to keep both formats in step
+  const delay = Math.max(ANIMATION.MIN_FRAME_DELAY_MS, Math.round(durationMs / frames / 10) * 10);
+  const delays = Array.from({ length: frames }, (_, index) =>
+    index === frames - 1 ? delay + ANIMATION.FINAL_HOLD_MS : delay,
+  );
+
+  return { frames, delays, loop: options.loop ?? ANIMATION.DEFAULT_LOOP };
+}
+
+/**
+ * Render an animated chart: the series draws itself from the window start to the last price
+ * and, when requested, the PnL badge follows the price at each cutoff
+ * Axes stay fixed and the last frame matches the still chart
+ * The end-point dot pulses with the elapsed playback time
+ */
+async function exportChartAnimation(
+  chartData: ChartData,
+  chartConfig: ChartConfig,
+  format: AnimationFormat,
+  options: AnimationOptions,
+  quality?: number,
+): Promise<ExportedImage> {
+  const { width, height, dpr } = chartConfig.dimensions;
+  const firstTime = chartData.points[0]?.t ?? 0;
+  const lastTime = chartData.points[chartData.points.length - 1]?.t ?? firstTime;
+  const timing = resolveAnimationTiming(options, Math.round(width * dpr) * Math.round(height * dpr));
+
+  // Frames are rendered one at a time so only one canvas is alive
+  const frames: Buffer[] = [];
+  for (let index = 0; index < timing.frames; index++) {
+    const isLast = index === timing.frames - 1;
+    const revealUntil = isLast ? undefined : firstTime + ((lastTime - firstTime) * (index + 1)) / timing.frames;
+    const elapsed = timing.delays.slice(0, index).reduce((sum, delay) => sum + delay, 0);
+    const pulsePhase = (elapsed % CHART_STYLE.LAST_PRICE.PULSE_PERIOD_MS) / CHART_STYLE.LAST_PRICE.PULSE_PERIOD_MS;
+    const { canvas, ctx } = setupChartCanvas(width, height, dpr);
+    renderChart(ctx, { ...chartData, revealUntil, pulsePhase }, chartConfig);
+    frames.push(await exportCanvas(canvas, "png"));
+  }
+
+  const buffer = await encodeAnimatedImage(frames, format, {
+    width: Math.round(width * dpr),
+    height: Math.round(height * dpr),
+    delays: timing.delays,
+    loop: timing.loop,
+    quality,
+  });
+  logger.info(`Encoded ${timing.frames}-frame ${format} animation`);
+
+  return { buffer, rawBytes: frames.reduce((sum, frame) => sum + frame.byteLength, 0), frames: timing.frames };
+}
+
+/**
+ * Render the chart as a still image or, when requested, as an animation of the price path
+ */
+async function exportChart(
+  chartData: ChartData,
+  chartConfig: ChartConfig,
+  config: ChartGenerationWithR2Config,
+  format: OutputFormat,
+): Promise<ExportedImage> {
+  if (config.animation) {
+    if (!isAnimationFormat(format)) {
+      throw new Error(`Animated charts must use one of: ${ANIMATION_FORMATS.join(", ")} (got ${format})`);
+    }
+    return await exportChartAnimation(chartData, chartConfig, format, config.animation, config.quality);
+  }
+
+  const { width, height, dpr } = chartConfig.dimensions;
+  const { canvas, ctx } = setupChartCanvas(width, height, dpr);
+  renderChart(ctx, chartData, chartConfig);
+  return await exportChartImage(canvas, format, config.quality);
+}
+
+/**
+ * Upload an exported chart to R2 under a key and content type matching its format
+ */
+async function uploadChartToR2(
+  buffer: Buffer,
+  tokenAddress: string,
+  periodHours: number,
+  format: OutputFormat,
+  bucket: R2Bucket,
+): Promise<R2UploadResult> {
+  const r2Key = generateR2Key(
+    tokenAddress.slice(-8), // Use last 8 chars of token address as symbol
+    periodHours,
+    format,
+  );
+
+  const r2Upload = await uploadToR2(buffer, r2Key, bucket, OUTPUT_CONTENT_TYPES[format]);
+
+  if (r2Upload.success) {
+    logger.info(`Chart uploaded to R2: ${r2Upload.url}`);
+  } else {
+    logger.error(`R2 upload failed: ${r2Upload.error}`);
+  }
+
+  return r2Upload;
+}
+
+/**
+ * Generate a chart from OHLCV data with optional R2 upload
+ * Enhanced chart generation orchestration function
+ */
+export async function generateChartWithR2(config: ChartGenerationWithR2Config): Promise<ChartGenerationResult> {
+  logger.info(`Starting chart generation for token: ${config.tokenAddress}`);
+
+  try {
+    // Step 1: Validate token has sufficient data
+    const validation = await validateTokenForCharting(config.tokenAddress);
+    if (!validation.isValid) {
+      throw new Error(
+        `Token ${config.tokenAddress} does not have sufficient data for charting (${validation.dataCount} points)`,
+      );
+    }
+
+    // Step 2: Fetch OHLCV data from database
+    const ohlcvParams: OHLCVDataParams = {
+      tokenAddress: config.tokenAddress,
+      periodHours: config.periodHours,
+      intervalMinutes: 1, // Default interval
+      lookbackPoints: getIndicatorLookback(config.indicators),
+      includeTime: getWindowIncludeTime(config),
+    };
+
+    const ohlcvResult = await fetchOHLCVData(ohlcvParams);
+
+    if (ohlcvResult.points.length === 0) {
+      throw new Error(`No OHLCV data retrieved for token ${config.tokenAddress}`);
+    }
+
+    // Step 3: Validate data integrity and handle missing candles
+    const series = prepareSeriesPoints(ohlcvResult.points, ohlcvParams.intervalMinutes, config.gapMode);
+
+    // Step 4: Create chart configuration
+    const chartType = config.chartType ?? "line";
+    const chartConfig = createDefaultChartConfig(config.width, config.height, config.dpr, {
+      chartType,
+      volumePanelRatio: config.volumePanelRatio,
+      showHeader: config.showHeader,
+      theme: config.theme,
+      styleOverrides: config.styleOverrides,
+      yScaleMode: config.yScaleMode,
+      locale: config.locale,
+      timeZone: config.timeZone,
+      priceDigits: config.priceDigits,
+    });
+
+    // Step 5: Downsample data for rendering optimization
+    const downsampledData = downsampleForChart(series.points, chartConfig);
+
+    // Step 6: Prepare chart data with user's entry price and position direction
+    const chartData = await prepareChartData(
+      config,
+      ohlcvResult,
+      downsampledData,
+      chartConfig.downsampleWidth,
+      series.gaps,
+    );
+
+    // Step 7-9: Render the chart (or its animation frames) and export it in the requested format
+    const format = config.format ?? "png";
+    const image = await exportChart(chartData, chartConfig, config, format);
 
     let localPath: string | undefined;
     let r2Upload: R2UploadResult | undefined;
 
-    // Step 11: Handle local saving if outputPath is provided
+    // Step 10: Handle local saving if outputPath is provided
     if (config.outputPath) {
       await ensureOutputDirectory(config.outputPath);
-      await canvas.saveAs(config.outputPath);
+      await writeImageFile(config.outputPath, image.buffer);
       localPath = config.outputPath;
       logger.info(`Chart saved locally: ${config.outputPath}`);
     }
 
-    // Step 12: Handle R2 upload if bucket is provided
+    // Step 11: Handle R2 upload if bucket is provided
     if (config.r2Bucket) {
-      const r2Key = generateR2Key(
-        ohlcvResult.tokenAddress.slice(-8), // Use last 8 chars of token address as symbol
+      r2Upload = await uploadChartToR2(
+        image.buffer,
+        ohlcvResult.tokenAddress,
         config.periodHours,
+        format,
+        config.r2Bucket,
       );
-
-      r2Upload = await uploadToR2(optimizedBuffer, r2Key, config.r2Bucket, "image/png");
-
-      if (r2Upload.success) {
-        logger.info(`Chart uploaded to R2: ${r2Upload.url}`);
-      } else {
-        logger.error(`R2 upload failed: ${r2Upload.error}`);
-      }
     }
 
-    // Step 13: Generate and log metrics
+    // Step 12: Generate and log metrics
     const metricsOutputPath = localPath || (r2Upload?.success ? (r2Upload.url ?? "memory") : "memory");
     const metrics = generateChartMetrics(
       ohlcvResult.points,
       downsampledData,
-      config.entryPrice,
+      chartData.entryPrice,
       config.isBullish,
-      metricsOutputPath,
-      optimizedBuffer.byteLength,
+      {
+        path: metricsOutputPath,
+        format,
+        rawBytes: image.rawBytes,
+        outputBytes: image.buffer.byteLength,
+        frames: image.frames,
+      },
       { width: config.width, height: config.height, dpr: config.dpr },
+      { locale: chartConfig.labelFormat.locale, significantDigits: chartConfig.labelFormat.significantDigits },
     );
 
     logger.info("Chart generation completed successfully!");
@@ -581,6 +2589,8 @@ export async function generateChartWithR2(config: ChartGenerationWithR2Config):
 
     return {
       metrics,
+      buffer: image.buffer,
+      contentType: OUTPUT_CONTENT_TYPES[format],
       localPath,
       r2Upload,
     };
@@ -591,6 +2601,148 @@ export async function generateChartWithR2(config: ChartGenerationWithR2Config):
   }
 }
 
+/**
+ * Fetch one comparison token and rebase it to % change from its first price in the window
+ */
+async function loadComparisonSeries(
+  tokenAddress: string,
+  periodHours: number,
+  downsampleWidth: number,
+): Promise<ComparisonSeries> {
+  const [ohlcvResult, token] = await Promise.all([
+    fetchOHLCVData({ tokenAddress, periodHours, intervalMinutes: 1 }),
+    getTokenByAddress(tokenAddress),
+  ]);
+
+  const rebased = rebaseToPercent(ohlcvResult.points);
+  if (rebased.length === 0) {
+    throw new Error(`No OHLCV data retrieved for token ${tokenAddress}`);
+  }
+
+  return {
+    tokenAddress,
+    label: token?.symbol ?? shortenAddress(tokenAddress),
+    points: downsampleMinMax(rebased, downsampleWidth),
+    // Use the raw last point; downsampling may not keep it
+    changePercent: rebased[rebased.length - 1]?.y ?? 0,
+  };
+}
+
+/**
+ * Generate a comparison chart of several tokens rebased to 0% at the window start
+ */
+export async function generateComparisonChart(config: ComparisonChartConfig): Promise<ComparisonChartResult> {
+  logger.info(`Starting comparison chart for tokens: ${config.tokenAddresses.join(", ")}`);
+
+  try {
+    const chartConfig = createDefaultChartConfig(config.width, config.height, config.dpr, {
+      theme: config.theme,
+      styleOverrides: config.styleOverrides,
+      locale: config.locale,
+      timeZone: config.timeZone,
+    });
+
+    const series = await Promise.all(
+      config.tokenAddresses.map((tokenAddress) =>
+        loadComparisonSeries(tokenAddress, config.periodHours, chartConfig.downsampleWidth),
+      ),
+    );
+
+    const { canvas, ctx } = setupChartCanvas(config.width, config.height, config.dpr);
+    renderComparisonChart(ctx, series, chartConfig);
+
+    const optimizedBuffer = await optimizeImageWithSharp(await canvas.toBuffer("png"));
+
+    logger.info("Comparison chart generation completed successfully!");
+
+    return {
+      buffer: optimizedBuffer,
+      contentType: "image/png",
+      series: series.map(({ points: _points, ...summary }) => summary),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`Comparison chart generation failed: ${message}`);
+    throw new Error(`Comparison chart generation failed: ${message}`);
+  }
+}
+
+/**
+ * Resolve and fetch one sparkline token; the chart data is null when the token is unknown or has no data
+ */
+async function loadSparklineRow(
+  token: string,
+  periodHours: number,
+  downsampleWidth: number,
+): Promise<{ row: SparklineRow; chartData: ChartData | null }> {
+  const tokenAddress = await resolveTokenAddress(token);
+  const missing = { row: { token, tokenAddress, changePercent: null }, chartData: null };
+  if (!tokenAddress) return missing;
+
+  try {
+    const { points } = await fetchOHLCVData({ tokenAddress, periodHours, intervalMinutes: 1 });
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (!first || !last || first.y <= 0) return missing;
+
+    return {
+      row: { token, tokenAddress, changePercent: (last.y / first.y - 1) * 100 },
+      chartData: {
+        points: downsampleMinMax(points, downsampleWidth),
+        entryPrice: first.y,
+        isBullish: last.y >= first.y,
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.warn(`Skipping sparkline for ${token}: ${message}`);
+    return missing;
+  }
+}
+
+/**
+ * Generate a batch of sparklines as one vertical sprite sheet, one row per token in request order
+ * Rows of unknown tokens or tokens without data are left transparent
+ */
+export async function generateSparklineSprite(config: SparklineBatchConfig): Promise<SparklineBatchResult> {
+  logger.info(`Starting sparkline sprite for ${config.tokens.length} tokens`);
+
+  try {
+    const chartConfig = createSparklineChartConfig(config.width, config.height, config.dpr, {
+      theme: config.theme,
+      styleOverrides: config.styleOverrides,
+    });
+
+    const rows = await Promise.all(
+      config.tokens.map((token) => loadSparklineRow(token, config.periodHours, chartConfig.downsampleWidth)),
+    );
+
+    const { canvas, ctx } = setupChartCanvas(config.width, config.height * rows.length, config.dpr);
+    rows.forEach(({ chartData }, index) => {
+      if (!chartData) return;
+
+      // Clip each row so glow never bleeds into its neighbours
+      ctx.save();
+      ctx.translate(0, index * config.height);
+      ctx.beginPath();
+      ctx.rect(0, 0, config.width, config.height);
+      ctx.clip();
+      renderChart(ctx, chartData, chartConfig);
+      ctx.restore();
+    });
+
+    const optimizedBuffer = await optimizeImageWithSharp(await canvas.toBuffer("png"));
+
+    logger.info("Sparkline sprite generation completed successfully!");
+
+    return { buffer: optimizedBuffer, contentType: "image/png", rows: rows.map(({ row }) => row) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`Sparkline sprite generation failed: ${message}`);
+    throw new Error(`Sparkline sprite generation failed: ${message}`);
+  }
+}
+
 /**
  * Generate a chart from OHLCV data (backward compatible)
  * Main chart generation orchestration function
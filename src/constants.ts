@@ -2,6 +2,25 @@
  * Application constants
  */
 
+import type {
+  AnimationFormat,
+  AnnotationType,
+  CanvasSize,
+  ChartTheme,
+  ChartType,
+  GapMode,
+  IndicatorType,
+  LocalePreset,
+  LocalePresetName,
+  OutputFormat,
+  PriceLevelType,
+  RasterFormat,
+  SizePresetName,
+  ThemeName,
+  TradeSide,
+  YScaleMode,
+} from "./types";
+
 // Chart generation defaults
 export const CHART_DEFAULTS = {
   WIDTH: 800,
@@ -13,6 +32,74 @@ export const CHART_DEFAULTS = {
   OUTPUT_DIR: "./data",
 } as const;
 
+// Canvas sizes for social media and link previews
+export const SIZE_PRESET_NAMES: readonly SizePresetName[] = ["twitter", "og", "square", "story", "telegram"];
+
+export const SIZE_PRESETS: Readonly<Record<SizePresetName, CanvasSize>> = {
+  twitter: { width: 1200, height: 675 }, // 16:9 in-feed image
+  og: { width: 1200, height: 630 }, // Open Graph link preview
+  square: { width: 1080, height: 1080 },
+  story: { width: 1080, height: 1920 }, // 9:16 stories
+  telegram: { width: 1280, height: 720 },
+};
+
+// Upper bounds for user-supplied chart parameters
+export const CHART_LIMITS = {
+  MAX_WIDTH: 4096,
+  MAX_HEIGHT: 4096,
+  MAX_DPR: 3,
+  MAX_PERIOD_HOURS: 24 * 30,
+  MAX_LEVERAGE: 1000,
+  MAX_GLOW_STRENGTH: 3,
+  MIN_COMPARISON_TOKENS: 2,
+  MAX_COMPARISON_TOKENS: 5,
+  MAX_SPARKLINE_BATCH: 50,
+} as const;
+
+// Animated chart output; the frame and pixel caps keep one request within the Worker CPU limit
+export const ANIMATION = {
+  DEFAULT_FRAMES: 30,
+  MIN_FRAMES: 2,
+  MAX_FRAMES: 60,
+  DEFAULT_DURATION_MS: 3000,
+  MIN_DURATION_MS: 500,
+  MAX_DURATION_MS: 10_000,
+  MIN_FRAME_DELAY_MS: 20, // browsers slow down faster GIF frames
+  FINAL_HOLD_MS: 2000, // the last frame stays on screen before the loop restarts
+  DEFAULT_LOOP: 0, // repeat forever
+  MAX_LOOP: 65_535, // 16-bit loop count in both WebP and GIF
+  MAX_TOTAL_PIXELS: 40_000_000, // device pixels over all frames; frame count is reduced to fit
+} as const;
+
+// HTTP caching for embeddable chart images
+export const CACHE_CONFIG = {
+  CHART_MAX_AGE: 60, // Browser cache in seconds
+  CHART_S_MAXAGE: 300, // CDN cache in seconds
+} as const;
+
+// Supported price series rendering modes
+export const CHART_TYPES: readonly ChartType[] = ["line", "candles", "ohlc-bars"];
+
+// Supported price axis scales
+export const Y_SCALE_MODES: readonly YScaleMode[] = ["linear", "log", "percent"];
+
+// Supported missing-candle handling modes
+export const GAP_MODES: readonly GapMode[] = ["break", "bridge", "fill"];
+
+export const DEFAULT_GAP_MODE: GapMode = "bridge";
+
+// Supported technical indicator kinds
+export const INDICATOR_TYPES: readonly IndicatorType[] = ["sma", "ema", "bb", "vwap"];
+
+// Supported horizontal price level kinds
+export const PRICE_LEVEL_TYPES: readonly PriceLevelType[] = ["entry", "tp", "sl", "liquidation", "custom"];
+
+// Supported trade sides
+export const TRADE_SIDES: readonly TradeSide[] = ["buy", "sell"];
+
+// Supported annotation kinds
+export const ANNOTATION_TYPES: readonly AnnotationType[] = ["hline", "vline", "callout", "range"];
+
 // Chart styling constants
 export const CHART_STYLE = {
   COLORS: {
@@ -22,22 +109,306 @@ export const CHART_STYLE = {
     BACKGROUND_END: "#0b0f10",
     GRID: "rgba(255,255,255,0.08)",
     AXIS_LABELS: "rgba(255,255,255,0.6)", // Greyish color for axis labels
+    TAKE_PROFIT: "#00d1ff",
+    STOP_LOSS: "#ffb020",
+    LIQUIDATION: "#ff2e63",
+    CUSTOM_LEVEL: "#b388ff",
+    TAG_TEXT: "#050607", // Text on filled price tags
+    TEXT: "#ffffff",
+    MUTED_TEXT: "rgba(255,255,255,0.55)",
   },
-  PADDING: {
-    LEFT_RATIO: 0.06, // 48px at 800px width - increased for better spacing
-    RIGHT_RATIO: 0.12, // 96px at 800px width - increased for price labels
-    TOP_RATIO: 0.08, // 29px at 360px height - increased for better spacing
-    BOTTOM_RATIO: 0.15, // 54px at 360px height - increased for time labels
+  LAYOUT: {
+    REFERENCE_ASPECT: 800 / 360, // Fonts follow the width up to this aspect ratio and the height beyond it
+    MIN_RIGHT_PADDING: 7, // Room for price labels, in axis font sizes
+    MIN_BOTTOM_PADDING: 4, // Room for two-line time labels, in axis font sizes
+    // Checked in order; the first profile whose MIN_ASPECT (width / height) is reached applies
+    PROFILES: [
+      {
+        ORIENTATION: "landscape",
+        MIN_ASPECT: 1.25,
+        FONT_SCALE: 1,
+        PADDING: {
+          LEFT_RATIO: 0.06, // 48px at 800px width
+          RIGHT_RATIO: 0.12, // 96px at 800px width, for price labels
+          TOP_RATIO: 0.08, // 29px at 360px height
+          BOTTOM_RATIO: 0.15, // 54px at 360px height, for time labels
+        },
+        HEADER_RATIO: 0.14, // Header strip height relative to canvas height
+        MIN_LABEL_SPACING: 2.5, // Minimum vertical distance between price labels, in font sizes
+      },
+      {
+        ORIENTATION: "square",
+        MIN_ASPECT: 0.8,
+        FONT_SCALE: 1.25, // Square images are shown at phone width, so text is scaled up
+        PADDING: { LEFT_RATIO: 0.05, RIGHT_RATIO: 0.14, TOP_RATIO: 0.07, BOTTOM_RATIO: 0.12 },
+        HEADER_RATIO: 0.1,
+        MIN_LABEL_SPACING: 3,
+      },
+      {
+        ORIENTATION: "portrait",
+        MIN_ASPECT: 0,
+        FONT_SCALE: 1.5,
+        // Taller top and bottom margins keep the chart clear of story overlays
+        PADDING: { LEFT_RATIO: 0.05, RIGHT_RATIO: 0.16, TOP_RATIO: 0.1, BOTTOM_RATIO: 0.14 },
+        HEADER_RATIO: 0.07,
+        MIN_LABEL_SPACING: 4, // Tall plots would otherwise get a crowded price axis
+      },
+    ],
   },
+  FONT_FAMILY: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
   AXIS: {
-    FONT_SIZE_RATIO: 0.01, // Font size relative to canvas width (9.6px at 800px)
+    FONT_SIZE_RATIO: 0.01, // Font size relative to canvas width (9.6px at 800px), scaled by the layout profile
     TICK_LENGTH: 4, // Length of tick marks
     LABEL_PADDING: 8, // Padding between axis and labels
+    MIN_LABEL_GAP: 12, // Minimum horizontal gap between time labels
+    TIME_STEPS_MINUTES: [1, 5, 15, 30, 60, 120, 180, 360, 720, 1440, 2880, 10080, 20160], // Aligned time tick steps
+  },
+  CANDLES: {
+    MIN_SPACING: 6, // Minimum horizontal pixels per candle before merging
+    BODY_WIDTH_RATIO: 0.7, // Candle body width relative to candle spacing
+    WICK_WIDTH_RATIO: 0.5, // Wick/bar stroke width relative to neon stroke width
+  },
+  GAPS: {
+    MIN_INTERVALS: 15, // Points further apart than this many intervals have a gap; shorter holes are never filled
+    BRIDGE_DASH: [1, 5], // Dotted line across bridged gaps
+    BRIDGE_WIDTH: 1.5,
+    BRIDGE_ALPHA: 0.6,
+  },
+  VOLUME: {
+    DEFAULT_PANEL_RATIO: 0.2, // Volume panel height relative to canvas height
+    MAX_PANEL_RATIO: 0.5,
+    GAP_RATIO: 0.03, // Gap between price area and volume panel relative to canvas height
+    BAR_ALPHA: 0.45,
+  },
+  PRICE_LEVELS: {
+    LINE_ALPHA: 0.6,
+    DASH: {
+      entry: [8, 8],
+      tp: [4, 4],
+      sl: [4, 4],
+      liquidation: [2, 3],
+      custom: [6, 3],
+    },
+    LABELS: {
+      entry: "Entry",
+      tp: "TP",
+      sl: "SL",
+      liquidation: "Liq",
+      custom: "",
+    },
+    TAG_PADDING: 3, // Horizontal/vertical padding inside price tags
+    TAG_RADIUS: 2,
+    MAX_LABEL_LENGTH: 24,
+  },
+  PNL_BADGE: {
+    FONT_SCALE: 2.8, // Headline font size relative to the axis font size
+    SUB_FONT_SCALE: 0.55, // Secondary line font size relative to headline
+    PADDING: 8,
+    RADIUS: 6,
+    MARGIN: 10, // Offset from the top-left corner of the plot area
+    BACKGROUND: "rgba(0,0,0,0.55)",
+    GLOW_BLUR: 12, // Headline glow at glowStrength 1
+  },
+  INDICATORS: {
+    MAX_COUNT: 5,
+    MAX_PERIOD: 500,
+    DEFAULT_PERIOD: 20,
+    DEFAULT_STD_DEV: 2,
+    MAX_STD_DEV: 5,
+    EMA_WARMUP_FACTOR: 3, // Lookback of period * factor points lets the EMA converge before the window
+    LINE_WIDTH: 1.5,
+    LINE_ALPHA: 0.9,
+    BAND_ALPHA: 0.08, // Fill between Bollinger bands
+    LEGEND_MARGIN: 10, // Offset from the top-right corner of the plot area
+    LEGEND_SWATCH: 12, // Width of the colored line in front of each legend label
+  },
+  POSITION_MARKERS: {
+    WINDOW_PADDING_RATIO: 0.05, // Extra history before an entry that lies outside the requested period
+    DOT_RADIUS: 4,
+    RING_WIDTH: 2,
+    GLOW_BLUR: 10, // Marker glow at glowStrength 1
+    HOLDING_ALPHA: 0.07, // Shading of the holding period
+  },
+  TRADES: {
+    MAX_COUNT: 200,
+    MIN_SIZE: 4, // Triangle half-width of the smallest trade
+    MAX_SIZE: 10, // Triangle half-width of the largest trade
+    ALPHA: 0.9,
+    OUTLINE_WIDTH: 1,
+  },
+  ANNOTATIONS: {
+    MAX_COUNT: 20,
+    MAX_TEXT_LENGTH: 40,
+    LINE_ALPHA: 0.7,
+    LINE_DASH: [5, 4], // Horizontal and vertical annotation lines
+    RANGE_ALPHA: 0.1, // Shading of time ranges
+    LABEL_PADDING: 3, // Horizontal/vertical padding inside label boxes
+    LABEL_RADIUS: 3,
+    LABEL_MARGIN: 4, // Gap between a label and its line or the plot edge
+    CALLOUT_OFFSET: 28, // Vertical distance from a callout point to its label
+    DOT_RADIUS: 3, // Callout anchor dot
+  },
+  LAST_PRICE: {
+    DOT_RADIUS: 3, // End-point dot inside its neon ring
+    RING_SEGMENTS: 24, // Polygon segments of the glowing ring around the dot
+    PULSE_RADIUS: 12, // Outer radius of the pulse halo at its widest
+    PULSE_ALPHA: 0.5, // Halo opacity at the start of a pulse, fading out as it widens
+    PULSE_PHASE: 0.4, // Pulse phase shown on still images
+    PULSE_PERIOD_MS: 1200, // Length of one pulse in animations
+    LINE_DASH: [2, 4], // Optional dashed line across the plot
+  },
+  HEADER: {
+    ICON_SCALE: 0.62, // Icon diameter relative to header height
+    TITLE_FONT_SCALE: 0.34, // Symbol/last price font size relative to header height
+    SUBTITLE_FONT_SCALE: 0.24, // Name/period font size relative to header height
+    GAP: 8, // Horizontal gap between header elements
+    FALLBACK_ICON_COLORS: ["#00ffa2", "#00d1ff", "#b388ff", "#ffb020", "#ff5f6d", "#4dd4ac"],
+  },
+  SPARKLINE: {
+    DEFAULT_WIDTH: 120,
+    DEFAULT_HEIGHT: 40,
+    PADDING: 2, // Uniform padding; there are no axes to make room for
+    STROKE_SCALE: 0.4, // Neon stroke width and blur relative to full-size charts
+    DOWNSAMPLE_MULTIPLIER: 1, // About one point per device pixel
+  },
+  COMPARISON: {
+    LINE_WIDTH: 2, // Series line width
+    BASELINE_DASH: [4, 4], // Dash pattern of the 0% line
   },
-  GRID_LINES: 4,
   Y_MARGIN_RATIO: 0.06,
 } as const;
 
+// Supported theme presets
+export const THEME_NAMES: readonly ThemeName[] = ["neon-dark", "light", "high-contrast", "colorblind", "monochrome"];
+
+export const DEFAULT_THEME: ThemeName = "neon-dark";
+
+// Theme palettes; line-style colors (candles, levels, PnL) must be #rrggbb hex
+export const CHART_THEMES: Readonly<Record<ThemeName, ChartTheme>> = {
+  "neon-dark": {
+    backgroundColor: { start: CHART_STYLE.COLORS.BACKGROUND_START, end: CHART_STYLE.COLORS.BACKGROUND_END },
+    gridColor: CHART_STYLE.COLORS.GRID,
+    candleUpColor: CHART_STYLE.COLORS.BULLISH,
+    candleDownColor: CHART_STYLE.COLORS.BEARISH,
+    levelColors: {
+      tp: CHART_STYLE.COLORS.TAKE_PROFIT,
+      sl: CHART_STYLE.COLORS.STOP_LOSS,
+      liquidation: CHART_STYLE.COLORS.LIQUIDATION,
+      custom: CHART_STYLE.COLORS.CUSTOM_LEVEL,
+    },
+    profitColor: CHART_STYLE.COLORS.BULLISH,
+    lossColor: CHART_STYLE.COLORS.BEARISH,
+    textColor: CHART_STYLE.COLORS.TEXT,
+    mutedTextColor: CHART_STYLE.COLORS.MUTED_TEXT,
+    axisLabelColor: CHART_STYLE.COLORS.AXIS_LABELS,
+    tagTextColor: CHART_STYLE.COLORS.TAG_TEXT,
+    badgeBackgroundColor: CHART_STYLE.PNL_BADGE.BACKGROUND,
+    glowStrength: 1,
+    indicatorColors: ["#ffd166", "#4dabf7", "#c77dff", "#ff8fab", "#63e6be"],
+  },
+  light: {
+    backgroundColor: { start: "#ffffff", end: "#f3f5f7" },
+    gridColor: "rgba(0,0,0,0.08)",
+    candleUpColor: "#00a870",
+    candleDownColor: "#e5484d",
+    levelColors: { tp: "#0091d5", sl: "#d97706", liquidation: "#d6204e", custom: "#7c4dff" },
+    profitColor: "#00a870",
+    lossColor: "#e5484d",
+    textColor: "#0b0f10",
+    mutedTextColor: "rgba(0,0,0,0.55)",
+    axisLabelColor: "rgba(0,0,0,0.6)",
+    tagTextColor: "#ffffff",
+    badgeBackgroundColor: "rgba(255,255,255,0.85)",
+    glowStrength: 0.3,
+    indicatorColors: ["#f59f00", "#1c7ed6", "#7048e8", "#d6336c", "#0ca678"],
+  },
+  "high-contrast": {
+    backgroundColor: { start: "#000000", end: "#000000" },
+    gridColor: "rgba(255,255,255,0.3)",
+    candleUpColor: "#00ff00",
+    candleDownColor: "#ff3030",
+    levelColors: { tp: "#00ffff", sl: "#ffff00", liquidation: "#ff00ff", custom: "#ffffff" },
+    profitColor: "#00ff00",
+    lossColor: "#ff3030",
+    textColor: "#ffffff",
+    mutedTextColor: "#e0e0e0",
+    axisLabelColor: "#ffffff",
+    tagTextColor: "#000000",
+    badgeBackgroundColor: "rgba(0,0,0,0.9)",
+    glowStrength: 0,
+    indicatorColors: ["#ffff00", "#00ffff", "#ff00ff", "#ffffff", "#ff8800"],
+  },
+  // Okabe-Ito blue/orange palette, distinguishable with red-green color vision deficiency
+  colorblind: {
+    backgroundColor: { start: CHART_STYLE.COLORS.BACKGROUND_START, end: CHART_STYLE.COLORS.BACKGROUND_END },
+    gridColor: CHART_STYLE.COLORS.GRID,
+    candleUpColor: "#0a8fe0",
+    candleDownColor: "#e69f00",
+    levelColors: { tp: "#56b4e9", sl: "#f0e442", liquidation: "#d55e00", custom: "#cc79a7" },
+    profitColor: "#0a8fe0",
+    lossColor: "#e69f00",
+    textColor: CHART_STYLE.COLORS.TEXT,
+    mutedTextColor: CHART_STYLE.COLORS.MUTED_TEXT,
+    axisLabelColor: CHART_STYLE.COLORS.AXIS_LABELS,
+    tagTextColor: CHART_STYLE.COLORS.TAG_TEXT,
+    badgeBackgroundColor: CHART_STYLE.PNL_BADGE.BACKGROUND,
+    glowStrength: 1,
+    indicatorColors: ["#f0e442", "#56b4e9", "#cc79a7", "#009e73", "#ffffff"],
+  },
+  monochrome: {
+    backgroundColor: { start: "#000000", end: "#111111" },
+    gridColor: "rgba(255,255,255,0.1)",
+    candleUpColor: "#ffffff",
+    candleDownColor: "#8a8a8a",
+    levelColors: { tp: "#e0e0e0", sl: "#b0b0b0", liquidation: "#707070", custom: "#c8c8c8" },
+    profitColor: "#ffffff",
+    lossColor: "#8a8a8a",
+    textColor: "#ffffff",
+    mutedTextColor: "rgba(255,255,255,0.55)",
+    axisLabelColor: "rgba(255,255,255,0.6)",
+    tagTextColor: "#000000",
+    badgeBackgroundColor: "rgba(0,0,0,0.6)",
+    glowStrength: 0.5,
+    indicatorColors: ["#d0d0d0", "#a0a0a0", "#ffffff", "#808080", "#c0c0c0"],
+  },
+};
+
+// Label locale and time zone defaults; UTC keeps renders identical across hosts
+export const DEFAULT_LOCALE = "en-US";
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// Locale presets; other BCP 47 tags use the "en" label formats with their own date names and number grouping
+export const LOCALE_PRESET_NAMES: readonly LocalePresetName[] = ["en", "ja"];
+
+export const LOCALE_PRESETS: Readonly<Record<LocalePresetName, LocalePreset>> = {
+  en: {
+    locale: "en-US",
+    dateFormat: { month: "short", day: "numeric" }, // "Jul 2"
+    timeFormat: { hour: "2-digit", minute: "2-digit" }, // "01:05 PM"
+  },
+  ja: {
+    locale: "ja-JP",
+    dateFormat: { month: "numeric", day: "numeric" }, // "7/2"
+    timeFormat: { hour: "2-digit", minute: "2-digit", hourCycle: "h23" }, // "13:05"
+  },
+};
+
+// Price label formatting
+export const PRICE_FORMAT = {
+  SIGNIFICANT_DIGITS: 4, // Default precision of price labels
+  MIN_SIGNIFICANT_DIGITS: 2,
+  MAX_SIGNIFICANT_DIGITS: 10,
+  METRICS_SIGNIFICANT_DIGITS: 6, // Precision of numeric prices in ChartMetrics
+  SUBSCRIPT_MIN_ZEROS: 4, // Leading fractional zeros before switching to 0.0₆1234 notation
+  COMPACT_THRESHOLD: 1000, // Values from here use K/M/B/T suffixes
+  COMPACT_SUFFIXES: [
+    [1e12, "T"],
+    [1e9, "B"],
+    [1e6, "M"],
+    [1e3, "K"],
+  ],
+} as const;
+
 // Neon glow effect configuration
 export const NEON_STROKES = [
   { width: 6, alpha: 0.25, blur: 18 }, // Base glow (thick, very transparent)
@@ -45,6 +416,15 @@ export const NEON_STROKES = [
   { width: 2, alpha: 1.0, blur: 0 }, // Core line (sharp, opaque)
 ] as const;
 
+// Token icon loading and caching
+export const ICON_CONFIG = {
+  FETCH_TIMEOUT_MS: 3000,
+  MAX_BYTES: 1024 * 1024,
+  SIZE: 64, // Normalized icon size in pixels
+  CACHE_DIR: "./data/icons",
+  R2_PREFIX: "icons/",
+} as const;
+
 // Database configuration
 export const DB_CONFIG = {
   MAX_QUERY_LIMIT: 10000,
@@ -54,6 +434,47 @@ export const DB_CONFIG = {
 // File operations
 export const FILE_CONFIG = {
   OUTPUT_DIR: "./data",
-  IMAGE_QUALITY: 90,
-  PNG_COMPRESSION_LEVEL: 6,
 } as const;
+
+// Sharp encoder settings per raster format; QUALITY is the default for requests without a quality
+export const IMAGE_ENCODERS = {
+  png: { COMPRESSION_LEVEL: 6, EFFORT: 10 }, // Lossless, maximum compression effort
+  webp: { QUALITY: 85, EFFORT: 4 },
+  jpeg: { QUALITY: 85 }, // Encoded with mozjpeg
+  avif: { QUALITY: 60, EFFORT: 4 }, // AVIF keeps detail at lower quality values than WebP/JPEG
+  gif: { EFFORT: 7 }, // 256-color palette per image
+  MIN_QUALITY: 1,
+  MAX_QUALITY: 100,
+} as const;
+
+// Chart output formats; raster formats go through Sharp, vector formats are exported as is
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ["png", "webp", "jpeg", "avif", "gif", "svg", "pdf"];
+
+export const RASTER_FORMATS: readonly RasterFormat[] = ["png", "webp", "jpeg", "avif", "gif"];
+
+// Formats for animated charts, smallest first for "auto" selection (GIF when WebP is not named in Accept)
+export const ANIMATION_FORMATS: readonly AnimationFormat[] = ["webp", "gif"];
+
+// Candidates for "auto" format selection, smallest first so Accept header ties favor smaller files
+// Only formats the client names explicitly are picked; wildcards and a missing Accept header get PNG
+export const AUTO_FORMATS: readonly RasterFormat[] = ["avif", "webp", "png"];
+
+export const OUTPUT_CONTENT_TYPES: Readonly<Record<OutputFormat, string>> = {
+  png: "image/png",
+  webp: "image/webp",
+  jpeg: "image/jpeg",
+  avif: "image/avif",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+};
+
+export const OUTPUT_EXTENSIONS: Readonly<Record<OutputFormat, string>> = {
+  png: "png",
+  webp: "webp",
+  jpeg: "jpg",
+  avif: "avif",
+  gif: "gif",
+  svg: "svg",
+  pdf: "pdf",
+};
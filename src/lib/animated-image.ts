@@ -0,0 +1,246 @@
+/**
+ * Animated image encoding with Sharp
+ * Sharp 0.33 cannot join separate images into one animation, so every frame is encoded on its own
+ * and the encoded frames are muxed into an animated WebP (RIFF ANMF chunks) or GIF89a container.
+ */
+
+import sharp from "sharp";
+import { IMAGE_ENCODERS } from "../constants";
+import type { AnimatedImageOptions, AnimationFormat } from "../types";
+
+// Payload of a single-frame WebP: the optional ALPH chunk followed by the VP8 or VP8L bitstream chunk
+interface WebPFrameData {
+  readonly chunks: Buffer;
+  readonly hasAlpha: boolean;
+}
+
+// Image block of a single-frame GIF with the color table it needs and its transparency setting
+interface GifFrameData {
+  readonly colorTable: Buffer;
+  readonly colorTableBits: number; // color table size as stored in the packed field (2^(n+1) entries)
+  readonly imageData: Buffer; // LZW minimum code size and data sub-blocks
+  readonly transparentIndex: number | null;
+}
+
+const WEBP_FRAME_CHUNKS = ["ALPH", "VP8 ", "VP8L"];
+const WEBP_ANIMATION_FLAG = 0x02;
+const WEBP_ALPHA_FLAG = 0x10;
+const WEBP_NO_BLEND_FLAG = 0x02; // every frame replaces the whole canvas
+
+const GIF_EXTENSION = 0x21;
+const GIF_IMAGE_DESCRIPTOR = 0x2c;
+const GIF_TRAILER = 0x3b;
+const GIF_GRAPHIC_CONTROL = 0xf9;
+const GIF_COLOR_TABLE_FLAG = 0x80;
+const GIF_DISPOSE_TO_BACKGROUND = 2 << 2;
+
+/**
+ * Build a RIFF chunk, padding odd-sized payloads to an even length
+ */
+function riffChunk(fourCC: string, payload: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(fourCC, 0, "ascii");
+  header.writeUInt32LE(payload.length, 4);
+  const padding = payload.length % 2 === 1 ? Buffer.alloc(1) : Buffer.alloc(0);
+  return Buffer.concat([header, payload, padding]);
+}
+
+/**
+ * Extract the frame chunks of a single-frame WebP produced by Sharp
+ */
+function readWebPFrame(webp: Buffer): WebPFrameData {
+  if (webp.toString("ascii", 0, 4) !== "RIFF" || webp.toString("ascii", 8, 12) !== "WEBP") {
+    throw new Error("Invalid WebP frame");
+  }
+
+  const chunks: Buffer[] = [];
+  let hasAlpha = false;
+  let offset = 12;
+
+  while (offset + 8 <= webp.length) {
+    const fourCC = webp.toString("ascii", offset, offset + 4);
+    const size = webp.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2);
+
+    if (WEBP_FRAME_CHUNKS.includes(fourCC)) {
+      chunks.push(webp.subarray(offset, end));
+    }
+    // VP8L stores its alpha flag in the bitstream header: bit 28 after the signature byte
+    if (fourCC === "ALPH" || (fourCC === "VP8L" && ((webp.readUInt32LE(offset + 9) >> 28) & 1) === 1)) {
+      hasAlpha = true;
+    }
+
+    offset = end;
+  }
+
+  if (chunks.length === 0) {
+    throw new Error("WebP frame has no image data");
+  }
+
+  return { chunks: Buffer.concat(chunks), hasAlpha };
+}
+
+/**
+ * Mux encoded WebP frames into an animated WebP
+ */
+function muxWebP(frames: readonly WebPFrameData[], options: AnimatedImageOptions): Buffer {
+  const { width, height, delays, loop } = options;
+
+  const vp8x = Buffer.alloc(10);
+  vp8x.writeUInt8(WEBP_ANIMATION_FLAG | (frames.some((frame) => frame.hasAlpha) ? WEBP_ALPHA_FLAG : 0), 0);
+  vp8x.writeUIntLE(width - 1, 4, 3);
+  vp8x.writeUIntLE(height - 1, 7, 3);
+
+  // Transparent black background, used by viewers only where frames are transparent
+  const anim = Buffer.alloc(6);
+  anim.writeUInt16LE(loop, 4);
+
+  const anmf = frames.map((frame, index) => {
+    const header = Buffer.alloc(16);
+    header.writeUIntLE(width - 1, 6, 3);
+    header.writeUIntLE(height - 1, 9, 3);
+    header.writeUIntLE(Math.round(delays[index] ?? 0), 12, 3);
+    header.writeUInt8(WEBP_NO_BLEND_FLAG, 15);
+    return riffChunk("ANMF", Buffer.concat([header, frame.chunks]));
+  });
+
+  const body = Buffer.concat([Buffer.from("WEBP", "ascii"), riffChunk("VP8X", vp8x), riffChunk("ANIM", anim), ...anmf]);
+  const header = Buffer.alloc(8);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Skip GIF data sub-blocks starting at offset, returning the offset after the block terminator
+ */
+function skipGifSubBlocks(gif: Buffer, offset: number): number {
+  let position = offset;
+  while (position < gif.length && gif[position] !== 0) {
+    position += (gif[position] ?? 0) + 1;
+  }
+  return position + 1;
+}
+
+/**
+ * Byte length of the color table announced by a GIF screen or image descriptor flag byte
+ */
+function getGifColorTableLength(flags: number): number {
+  return flags & GIF_COLOR_TABLE_FLAG ? 3 * 2 ** ((flags & 0x07) + 1) : 0;
+}
+
+/**
+ * Read the transparent color index of a graphic control extension starting at offset, if it sets one
+ * Layout: 0x21 0xf9 0x04 <packed> <delay:2> <transparent index> 0x00
+ */
+function readGifTransparentIndex(gif: Buffer, offset: number): number | null {
+  if (gif[offset + 1] !== GIF_GRAPHIC_CONTROL || (gif.readUInt8(offset + 3) & 0x01) === 0) return null;
+  return gif.readUInt8(offset + 6);
+}
+
+/**
+ * Extract the image block of a single-frame GIF produced by Sharp
+ * The global color table becomes the frame's local table so every frame keeps its own palette
+ */
+function readGifFrame(gif: Buffer): GifFrameData {
+  if (gif.toString("ascii", 0, 3) !== "GIF") {
+    throw new Error("Invalid GIF frame");
+  }
+
+  const screenFlags = gif.readUInt8(10);
+  const globalTable = gif.subarray(13, 13 + getGifColorTableLength(screenFlags));
+  let transparentIndex: number | null = null;
+  let offset = 13 + globalTable.length;
+
+  while (offset < gif.length && gif[offset] === GIF_EXTENSION) {
+    transparentIndex = readGifTransparentIndex(gif, offset) ?? transparentIndex;
+    offset = skipGifSubBlocks(gif, offset + 2);
+  }
+
+  if (gif[offset] !== GIF_IMAGE_DESCRIPTOR) {
+    throw new Error("GIF frame has no image data");
+  }
+
+  const imageFlags = gif.readUInt8(offset + 9);
+  const localTableLength = getGifColorTableLength(imageFlags);
+  const tableEnd = offset + 10 + localTableLength;
+
+  return {
+    colorTable: localTableLength > 0 ? gif.subarray(offset + 10, tableEnd) : globalTable,
+    colorTableBits: (localTableLength > 0 ? imageFlags : screenFlags) & 0x07,
+    imageData: gif.subarray(tableEnd, skipGifSubBlocks(gif, tableEnd + 1)),
+    transparentIndex,
+  };
+}
+
+/**
+ * Build the NETSCAPE2.0 application extension; it stores the repeats after the first play (0 repeats forever),
+ * so a single play needs no extension at all
+ */
+function gifLoopExtension(loop: number): Buffer {
+  if (loop === 1) return Buffer.alloc(0);
+
+  const netscape = Buffer.alloc(19);
+  netscape.set([GIF_EXTENSION, 0xff, 0x0b]);
+  netscape.write("NETSCAPE2.0", 3, "ascii");
+  netscape.set([0x03, 0x01], 14);
+  netscape.writeUInt16LE(loop === 0 ? 0 : loop - 1, 16);
+  return netscape;
+}
+
+/**
+ * Mux encoded GIF frames into an animated GIF89a with a NETSCAPE2.0 loop extension
+ */
+function muxGif(frames: readonly GifFrameData[], options: AnimatedImageOptions): Buffer {
+  const { width, height, delays, loop } = options;
+
+  const screen = Buffer.alloc(13);
+  screen.write("GIF89a", 0, "ascii");
+  screen.writeUInt16LE(width, 6);
+  screen.writeUInt16LE(height, 8);
+
+  const blocks = frames.flatMap((frame, index) => {
+    // GIF delays are in hundredths of a second
+    const control = Buffer.alloc(8);
+    control.set([GIF_EXTENSION, GIF_GRAPHIC_CONTROL, 0x04]);
+    control.writeUInt8(GIF_DISPOSE_TO_BACKGROUND | (frame.transparentIndex === null ? 0 : 0x01), 3);
+    control.writeUInt16LE(Math.round((delays[index] ?? 0) / 10), 4);
+    control.writeUInt8(frame.transparentIndex ?? 0, 6);
+
+    const descriptor = Buffer.alloc(10);
+    descriptor.writeUInt8(GIF_IMAGE_DESCRIPTOR, 0);
+    descriptor.writeUInt16LE(width, 5);
+    descriptor.writeUInt16LE(height, 7);
+    descriptor.writeUInt8(GIF_COLOR_TABLE_FLAG | frame.colorTableBits, 9);
+
+    return [control, descriptor, frame.colorTable, frame.imageData];
+  });
+
+  return Buffer.concat([screen, gifLoopExtension(loop), ...blocks, Buffer.from([GIF_TRAILER])]);
+}
+
+/**
+ * Encode rendered PNG frames of equal size into an animated WebP or GIF
+ * Quality applies to WebP only; GIF frames are quantized to their own 256-color palette
+ */
+export async function encodeAnimatedImage(
+  frames: readonly Buffer[],
+  format: AnimationFormat,
+  options: AnimatedImageOptions,
+): Promise<Buffer> {
+  if (format === "webp") {
+    const encoded = await Promise.all(
+      frames.map((frame) =>
+        sharp(frame)
+          .webp({ quality: options.quality ?? IMAGE_ENCODERS.webp.QUALITY, effort: IMAGE_ENCODERS.webp.EFFORT })
+          .toBuffer(),
+      ),
+    );
+    return muxWebP(encoded.map(readWebPFrame), options);
+  }
+
+  const encoded = await Promise.all(
+    frames.map((frame) => sharp(frame).gif({ effort: IMAGE_ENCODERS.gif.EFFORT }).toBuffer()),
+  );
+  return muxGif(encoded.map(readGifFrame), options);
+}
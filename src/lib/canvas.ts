@@ -4,7 +4,7 @@
  */
 
 import { Canvas, type CanvasRenderingContext2D } from "skia-canvas";
-import type { NeonStrokeConfig } from "../types";
+import type { NeonStrokeConfig, VectorFormat } from "../types";
 
 /**
  * Create a canvas with specified dimensions
@@ -24,7 +24,15 @@ export function getContext(canvas: Canvas): CanvasRenderingContext2D {
  * Export canvas to PNG buffer
  */
 export async function exportToPNG(canvas: Canvas): Promise<Buffer> {
-  return await canvas.toBuffer("png");
+  return await exportCanvas(canvas, "png");
+}
+
+/**
+ * Export canvas to a PNG, SVG or PDF buffer
+ * SVG and PDF keep paths and text as vectors at the canvas size in device pixels
+ */
+export async function exportCanvas(canvas: Canvas, format: "png" | VectorFormat): Promise<Buffer> {
+  return await canvas.toBuffer(format);
 }
 
 /**
@@ -44,6 +52,44 @@ export function hexToRgba(hex: string, alpha: number): string {
   return `rgba(${r}, ${g}, ${b}, ${alpha})`;
 }
 
+/**
+ * Add a rounded rectangle to the current path (caller fills or strokes it)
+ */
+export function pathRoundedRect(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number,
+): void {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + width, y, x + width, y + height, r);
+  ctx.arcTo(x + width, y + height, x, y + height, r);
+  ctx.arcTo(x, y + height, x, y, r);
+  ctx.arcTo(x, y, x + width, y, r);
+  ctx.closePath();
+}
+
+/**
+ * Scale the glow layers (blur > 0) of a neon stroke stack; the sharp core layer is kept as is
+ * Strength 0 drops the glow layers entirely
+ */
+export function scaleNeonGlow(strokes: readonly NeonStrokeConfig[], strength: number): NeonStrokeConfig[] {
+  if (strength === 1) return [...strokes];
+
+  return strokes
+    .filter((stroke) => stroke.blur === 0 || strength > 0)
+    .map((stroke) =>
+      stroke.blur === 0
+        ? stroke
+        : { width: stroke.width, alpha: Math.min(1, stroke.alpha * strength), blur: stroke.blur * strength },
+    );
+}
+
 /**
  * Draw neon glow effect using multiple stroke layers
  */
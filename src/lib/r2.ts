@@ -3,6 +3,8 @@
  * Handles image uploads, URL generation, and R2 bucket operations
  */
 
+import { OUTPUT_EXTENSIONS } from "../constants";
+import type { OutputFormat } from "../types";
 import { logger } from "../utils/logger";
 
 /**
@@ -45,37 +47,39 @@ export async function uploadToR2(
 }
 
 /**
- * Generate a unique filename for R2 upload with timestamp and random suffix
+ * Generate a unique filename for R2 upload with timestamp and random suffix; the extension follows the format
  */
-export function generateR2Key(tokenSymbol: string, periodHours: number): string {
+export function generateR2Key(tokenSymbol: string, periodHours: number, format: OutputFormat = "png"): string {
   const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
   const randomSuffix = Math.random().toString(36).substring(2, 8);
-  return `charts/${tokenSymbol.toLowerCase()}-${periodHours}h-${timestamp}-${randomSuffix}.png`;
+  return `charts/${tokenSymbol.toLowerCase()}-${periodHours}h-${timestamp}-${randomSuffix}.${OUTPUT_EXTENSIONS[format]}`;
 }
 
 // R2 bucket instance management
 let r2Bucket: R2Bucket | null = null;
 
 /**
- * Initialize R2 bucket from environment or create mock
+ * Initialize R2 bucket from the environment binding
  */
 function initializeR2Bucket(bucket: R2Bucket): R2Bucket {
-  // Try to use real R2 bucket from environment first
-  if (bucket) {
-    logger.info("Using real R2 bucket from environment");
-    return bucket;
-  }
-
-  // Fallback to mock bucket for development
-  logger.info("Using mock R2 bucket for development");
-  return createMockR2Bucket();
+  logger.info("Using real R2 bucket from environment");
+  return bucket;
 }
 
 /**
  * Get R2 bucket instance (singleton pattern)
- * Initializes on first call, returns cached instance afterwards
+ * Initializes on first call, returns cached instance afterwards.
+ * Without a binding, scripts may opt into a fresh mock bucket with `allowMock`; the mock is never cached
  */
-export function getR2Bucket(bucket: R2Bucket): R2Bucket {
+export function getR2Bucket(bucket: R2Bucket | undefined, options: { allowMock?: boolean } = {}): R2Bucket {
+  if (!bucket) {
+    if (!options.allowMock) {
+      throw new Error("R2 bucket binding is not configured");
+    }
+    logger.info("Using mock R2 bucket for development");
+    return createMockR2Bucket();
+  }
+
   if (!r2Bucket) {
     r2Bucket = initializeR2Bucket(bucket);
   }
@@ -0,0 +1,157 @@
+/**
+ * Token icon loading for chart headers
+ * Icons are fetched through a pluggable loader, normalized to small PNGs with Sharp and cached
+ * on disk or in R2. Every failure resolves to null so callers can fall back to a generated icon.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import sharp from "sharp";
+import { type Image, loadImage } from "skia-canvas";
+import { ICON_CONFIG } from "../constants";
+import type { TokenIconCache, TokenIconLoader } from "../types";
+import { logger } from "../utils/logger";
+
+/**
+ * Create a loader that downloads icons over HTTP with a timeout and size limit
+ */
+export function createFetchIconLoader(timeoutMs: number = ICON_CONFIG.FETCH_TIMEOUT_MS): TokenIconLoader {
+  return {
+    async load(url: string): Promise<Buffer | null> {
+      try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+        if (!response.ok) {
+          logger.warn(`Icon fetch failed (${response.status}): ${url}`);
+          return null;
+        }
+
+        const data = Buffer.from(await response.arrayBuffer());
+        if (data.byteLength === 0 || data.byteLength > ICON_CONFIG.MAX_BYTES) {
+          logger.warn(`Icon rejected (${data.byteLength} bytes): ${url}`);
+          return null;
+        }
+
+        return data;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        logger.warn(`Icon fetch failed: ${url} (${message})`);
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Create an icon cache backed by a local directory
+ */
+export function createFileIconCache(directory: string = ICON_CONFIG.CACHE_DIR): TokenIconCache {
+  return {
+    async get(key: string): Promise<Buffer | null> {
+      try {
+        return await readFile(join(directory, `${key}.png`));
+      } catch {
+        return null;
+      }
+    },
+    async put(key: string, data: Buffer): Promise<void> {
+      try {
+        await mkdir(directory, { recursive: true });
+        await writeFile(join(directory, `${key}.png`), data);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        logger.warn(`Failed to cache icon ${key}: ${message}`);
+      }
+    },
+  };
+}
+
+/**
+ * Create an icon cache backed by an R2 bucket
+ */
+export function createR2IconCache(bucket: R2Bucket, prefix: string = ICON_CONFIG.R2_PREFIX): TokenIconCache {
+  return {
+    async get(key: string): Promise<Buffer | null> {
+      try {
+        const object = await bucket.get(`${prefix}${key}.png`);
+        return object ? Buffer.from(await object.arrayBuffer()) : null;
+      } catch {
+        return null;
+      }
+    },
+    async put(key: string, data: Buffer): Promise<void> {
+      try {
+        await bucket.put(`${prefix}${key}.png`, data, { httpMetadata: { contentType: "image/png" } });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        logger.warn(`Failed to cache icon ${key} in R2: ${message}`);
+      }
+    },
+  };
+}
+
+/**
+ * Wrap a loader with a cache; fetched icons are normalized to square PNGs before caching
+ */
+export function createCachedIconLoader(loader: TokenIconLoader, cache: TokenIconCache): TokenIconLoader {
+  return {
+    async load(url: string): Promise<Buffer | null> {
+      const key = await getIconCacheKey(url);
+
+      const cached = await cache.get(key);
+      if (cached) {
+        logger.debug(`Icon cache hit: ${url}`);
+        return cached;
+      }
+
+      const raw = await loader.load(url);
+      if (!raw) return null;
+
+      const normalized = await normalizeIcon(raw);
+      if (normalized) {
+        await cache.put(key, normalized);
+      }
+      return normalized;
+    },
+  };
+}
+
+/**
+ * Load a token icon as a drawable image, or null when it cannot be loaded or decoded
+ */
+export async function loadTokenIcon(url: string | undefined, loader: TokenIconLoader): Promise<Image | null> {
+  if (!url) return null;
+
+  try {
+    const data = await loader.load(url);
+    if (!data) return null;
+
+    return await loadImage(data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.warn(`Failed to decode token icon ${url}: ${message}`);
+    return null;
+  }
+}
+
+/**
+ * Resize an icon to a square PNG; returns null for undecodable data
+ */
+async function normalizeIcon(data: Buffer): Promise<Buffer | null> {
+  try {
+    return await sharp(data).resize(ICON_CONFIG.SIZE, ICON_CONFIG.SIZE, { fit: "cover" }).png().toBuffer();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.warn(`Failed to normalize token icon: ${message}`);
+    return null;
+  }
+}
+
+/**
+ * Derive a stable cache key from the icon URL
+ */
+async function getIconCacheKey(url: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(url));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, 32);
+}
@@ -2,12 +2,102 @@
  * Centralized type definitions
  */
 
+import type { Image } from "skia-canvas";
+
 // Basic point structure for chart data
 export interface Point {
   readonly t: number; // timestamp in milliseconds
   readonly y: number; // value (price, volume, etc.)
 }
 
+// Full OHLCV candle; `y` holds the close price so candles can be used wherever a Point is expected
+export interface OHLCPoint extends Point {
+  readonly o: number; // open
+  readonly h: number; // high
+  readonly l: number; // low
+  readonly v: number; // volume
+}
+
+// Price series rendering mode
+export type ChartType = "line" | "candles" | "ohlc-bars";
+
+// Price axis scale: linear price, logarithmic price, or linear price labeled as % change from entry
+export type YScaleMode = "linear" | "log" | "percent";
+
+// Handling of missing candles: break the line, bridge the gap with a dotted line, or repeat the last close
+export type GapMode = "break" | "bridge" | "fill";
+
+// Run of missing candles between two consecutive points
+export interface DataGap {
+  readonly start: number; // timestamp (ms) of the last point before the gap
+  readonly end: number; // timestamp of the first point after the gap
+  readonly missingPoints: number; // expected candles absent between them
+}
+
+// Horizontal price level kinds drawn across the chart
+export type PriceLevelType = "entry" | "tp" | "sl" | "liquidation" | "custom";
+
+// Horizontal price level (take-profit, stop-loss, liquidation, ...)
+export interface PriceLevel {
+  readonly type: PriceLevelType;
+  readonly price: number;
+  readonly label?: string; // defaults to the type's short label (e.g. "TP")
+  readonly color?: string; // hex color overriding the style's level color
+}
+
+// Side of a trade fill
+export type TradeSide = "buy" | "sell";
+
+// Single fill of a position that was scaled in or out; times are Unix ms (the JSON API also accepts ISO 8601)
+export interface Trade<Time = number> {
+  readonly time: Time;
+  readonly price: number;
+  readonly side: TradeSide;
+  readonly size: number; // filled amount; marker size scales with it
+}
+
+// Label and color shared by every annotation kind
+interface AnnotationLabel {
+  readonly text?: string;
+  readonly color?: string; // #rrggbb hex overriding the style's custom level color
+}
+
+// Horizontal line at a price
+export interface PriceLineAnnotation extends AnnotationLabel {
+  readonly type: "hline";
+  readonly price: number;
+}
+
+// Vertical line at a timestamp, e.g. a listing or announcement
+export interface TimeLineAnnotation<Time = number> extends AnnotationLabel {
+  readonly type: "vline";
+  readonly time: Time;
+}
+
+// Labelled callout pointing at a price at a given time
+export interface CalloutAnnotation<Time = number> extends AnnotationLabel {
+  readonly type: "callout";
+  readonly time: Time;
+  readonly price: number;
+  readonly text: string;
+}
+
+// Shaded time range
+export interface RangeAnnotation<Time = number> extends AnnotationLabel {
+  readonly type: "range";
+  readonly time: Time; // range start
+  readonly endTime: Time;
+}
+
+// Event annotation drawn on the price area; times are Unix ms (the JSON API also accepts ISO 8601 strings)
+export type Annotation<Time = number> =
+  | PriceLineAnnotation
+  | TimeLineAnnotation<Time>
+  | CalloutAnnotation<Time>
+  | RangeAnnotation<Time>;
+
+export type AnnotationType = Annotation["type"];
+
 // Canvas coordinate after scaling
 export interface Coordinate {
   readonly x: number;
@@ -28,6 +118,48 @@ export interface ChartDimensions {
   readonly dpr: number; // device pixel ratio
 }
 
+// Canvas size in logical pixels
+export interface CanvasSize {
+  readonly width: number;
+  readonly height: number;
+}
+
+// Named canvas sizes for social media and link previews
+export type SizePresetName = "twitter" | "og" | "square" | "story" | "telegram";
+
+// Raster formats encoded by Sharp; webp, jpeg and avif are lossy with a quality setting
+export type RasterFormat = "png" | "webp" | "jpeg" | "avif" | "gif";
+
+// Raster formats that can carry an animation
+export type AnimationFormat = Extract<RasterFormat, "webp" | "gif">;
+
+// Vector formats exported by skia-canvas, keeping text and paths as vectors
+export type VectorFormat = "svg" | "pdf";
+
+export type OutputFormat = RasterFormat | VectorFormat;
+
+// Requested format; "auto" picks AVIF or WebP when the client's Accept header names it, and PNG otherwise
+export type OutputFormatOption = OutputFormat | "auto";
+
+// Requested animation of the price path; unset fields use the ANIMATION defaults
+export interface AnimationOptions {
+  readonly frames?: number;
+  readonly durationMs?: number; // time for the line to reach the last price, before the final frame is held
+  readonly loop?: number; // number of plays, 0 repeats forever
+}
+
+// Encoder settings for an animated image; sizes are in device pixels
+export interface AnimatedImageOptions {
+  readonly width: number;
+  readonly height: number;
+  readonly delays: readonly number[]; // display time of each frame in milliseconds
+  readonly loop: number;
+  readonly quality?: number; // webp only
+}
+
+// Layout family chosen from the canvas aspect ratio
+export type LayoutOrientation = "landscape" | "square" | "portrait";
+
 // Chart visual styling
 export interface ChartStyle {
   readonly lineColor: string;
@@ -37,6 +169,94 @@ export interface ChartStyle {
   };
   readonly gridColor: string;
   readonly entryLineColor: string;
+  readonly candleUpColor: string;
+  readonly candleDownColor: string;
+  readonly levelColors: Readonly<Record<Exclude<PriceLevelType, "entry">, string>>; // entry uses entryLineColor
+  readonly profitColor: string;
+  readonly lossColor: string;
+  readonly textColor: string;
+  readonly mutedTextColor: string;
+  readonly axisLabelColor: string;
+  readonly tagTextColor: string; // text on filled price tags
+  readonly badgeBackgroundColor: string;
+  readonly glowStrength: number; // multiplier for neon glow layers (0 disables glow)
+  readonly indicatorColors: readonly string[]; // #rrggbb colors assigned to indicators in order
+}
+
+// Named color theme presets
+export type ThemeName = "neon-dark" | "light" | "high-contrast" | "colorblind" | "monochrome";
+
+// Theme palette; line and entry colors are derived from the position side
+export type ChartTheme = Omit<ChartStyle, "lineColor" | "entryLineColor">;
+
+// Partial per-request style overrides applied on top of a theme
+export type ChartStyleOverrides = Partial<Omit<ChartStyle, "backgroundColor" | "levelColors">> & {
+  readonly backgroundColor?: Partial<ChartStyle["backgroundColor"]>;
+  readonly levelColors?: Partial<ChartStyle["levelColors"]>;
+};
+
+// PnL badge settings
+export interface PnLBadgeOptions {
+  readonly leverage?: number; // position leverage multiplier (default: 1)
+  readonly positionSize?: number; // position notional in USD, enables absolute PnL
+}
+
+// Profit and loss of a position since entry
+export interface PnLSummary {
+  readonly percent: number; // return on margin in percent, leverage applied
+  readonly absolute?: number; // USD PnL, present when the position size is known
+  readonly leverage: number;
+}
+
+// Technical indicator kinds
+export type IndicatorType = "sma" | "ema" | "bb" | "vwap";
+
+// Parsed indicator spec, e.g. "ema:20" or "bb:20:2"
+export interface IndicatorSpec {
+  readonly type: IndicatorType;
+  readonly period: number; // ignored by vwap, which is anchored at the start of the visible window
+  readonly stdDev?: number; // Bollinger band width in standard deviations
+}
+
+// Computed indicator ready for rendering
+export interface IndicatorOverlay {
+  readonly label: string; // legend text, e.g. "EMA 20"
+  readonly lines: readonly (readonly Point[])[]; // one line, or upper/middle/lower for Bollinger Bands
+  readonly band: boolean; // shade between the first and last line
+}
+
+// Short locale preset names accepted in place of a BCP 47 tag
+export type LocalePresetName = "en" | "ja";
+
+// Date and time label formats for a locale
+export interface LocalePreset {
+  readonly locale: string; // BCP 47 tag used for dates and number grouping, e.g. "en-US" or "ja-JP"
+  readonly dateFormat: Intl.DateTimeFormatOptions; // month/day labels
+  readonly timeFormat: Intl.DateTimeFormatOptions; // hour/minute labels
+}
+
+// Locale, time zone and price precision applied to every chart label, so renders do not depend on the host
+export interface LabelFormat extends LocalePreset {
+  readonly timeZone: string; // IANA time zone, e.g. "UTC" or "Asia/Tokyo"
+  readonly significantDigits: number; // price label precision
+}
+
+// Price label formatting options
+export interface PriceFormatOptions {
+  readonly significantDigits?: number; // default: 4
+  readonly locale?: string; // BCP 47 tag for grouping and decimal separators (default: en-US)
+  readonly prefix?: string; // currency symbol placed before the number (default: "$")
+  readonly compact?: boolean; // K/M/B/T suffixes from 1,000 (default: true)
+  readonly subscriptZeros?: boolean; // DEX-style zero count for tiny prices, e.g. 0.0₆1234 (default: true)
+  readonly padZeros?: boolean; // keep trailing zeros up to significantDigits so axis labels line up (default: false)
+}
+
+// Token header strip contents
+export interface ChartHeader {
+  readonly symbol: string;
+  readonly name: string;
+  readonly icon: Image | null; // null draws a generated initials icon
+  readonly periodHours: number;
 }
 
 // Chart data and configuration
@@ -44,13 +264,75 @@ export interface ChartData {
   readonly points: readonly Point[];
   readonly entryPrice: number;
   readonly isBullish: boolean;
+  readonly priceLevels?: readonly PriceLevel[]; // drawn in addition to the entry line
+  readonly pnlBadge?: PnLBadgeOptions; // shows the PnL badge when set
+  readonly lastPrice?: number; // latest raw price; defaults to the last (possibly downsampled) point
+  readonly header?: ChartHeader; // requires ChartConfig.header to reserve space
+  readonly indicators?: readonly IndicatorOverlay[]; // computed indicator lines in chart time range
+  readonly entryTime?: number; // position open time (ms); draws the entry marker and holding band
+  readonly exitTime?: number; // position close time (ms) for closed positions
+  readonly exitPrice?: number; // close price; defaults to the price at exitTime
+  readonly annotations?: readonly Annotation[]; // event lines, callouts and ranges
+  readonly trades?: readonly Trade[]; // buy and sell fills inside the chart window
+  readonly gaps?: readonly DataGap[]; // missing-candle runs where the line is broken
+  readonly gapMode?: GapMode; // "bridge" draws a dotted line across each gap (default: bridge)
+  readonly revealUntil?: number; // animation frame cutoff (ms): later points are hidden, axes keep the full range
+  readonly showLastPriceLine?: boolean; // dashed line across the plot at the last price
+  readonly pulsePhase?: number; // 0-1 progress of the last-price pulse (default: CHART_STYLE.LAST_PRICE.PULSE_PHASE)
 }
 
-export interface ChartConfig {
-  readonly dimensions: ChartDimensions;
+// One token of a comparison chart, rebased to % change from its first price in the window
+export interface ComparisonSeries {
+  readonly tokenAddress: string;
+  readonly label: string; // token symbol shown in the legend
+  readonly points: readonly Point[]; // y = % change from the series start
+  readonly changePercent: number; // % change over the window, from full-resolution data
+}
+
+// Volume histogram panel placed between the price area and the time axis
+export interface VolumePanelLayout {
+  readonly height: number; // panel height in logical pixels
+  readonly gap: number; // spacing between price area and panel
+}
+
+// Token header strip placed above the price area
+export interface HeaderLayout {
+  readonly height: number; // strip height in logical pixels
+}
+
+// Size-dependent layout: padding, header and volume panel placement, font size and tick density
+export interface ChartLayout {
+  readonly orientation: LayoutOrientation;
   readonly padding: ChartPadding;
+  readonly header: HeaderLayout | null;
+  readonly volumePanel: VolumePanelLayout | null;
+  readonly fontSize: number; // axis label font size, including the dpr factor
+  readonly minLabelSpacing: number; // minimum vertical distance between price labels, in font sizes
+}
+
+export interface ChartConfig extends ChartLayout {
+  readonly dimensions: ChartDimensions;
   readonly style: ChartStyle;
+  readonly theme: ThemeName;
+  readonly styleOverrides?: ChartStyleOverrides;
   readonly downsampleWidth: number;
+  readonly chartType: ChartType;
+  readonly yScaleMode: YScaleMode;
+  readonly labelFormat: LabelFormat;
+  readonly sparkline: boolean; // line and area fill only, without axes, grid, levels or labels
+}
+
+// Optional rendering settings for createDefaultChartConfig
+export interface ChartConfigOptions {
+  readonly chartType?: ChartType;
+  readonly volumePanelRatio?: number; // share of canvas height for the volume panel (0 disables)
+  readonly showHeader?: boolean;
+  readonly theme?: ThemeName;
+  readonly styleOverrides?: ChartStyleOverrides;
+  readonly yScaleMode?: YScaleMode;
+  readonly locale?: string; // BCP 47 tag or locale preset name
+  readonly timeZone?: string;
+  readonly priceDigits?: number; // significant digits of price labels
 }
 
 // Neon glow effect configuration
@@ -67,11 +349,25 @@ export interface ChartMetrics {
   readonly isBullish: boolean;
   readonly entryPrice: number;
   readonly lastPrice: number;
+  readonly entryPriceLabel: string; // formatted like the chart labels, e.g. "$0.0₆1234"
+  readonly lastPriceLabel: string;
+  readonly rawBytes: number; // rendered size before Sharp optimization (all frames for animations)
   readonly outputBytes: number;
   readonly outputPath: string;
+  readonly format: OutputFormat;
+  readonly frames: number; // 1 for still images
   readonly size: string;
 }
 
+// Exported chart file described by ChartMetrics
+export interface ChartOutputInfo {
+  readonly path: string;
+  readonly format: OutputFormat;
+  readonly rawBytes: number;
+  readonly outputBytes: number;
+  readonly frames: number;
+}
+
 // Configuration for chart generation
 export interface ChartGenerationConfig {
   readonly tokenAddress: string;
@@ -80,16 +376,124 @@ export interface ChartGenerationConfig {
   readonly height: number;
   readonly dpr: number;
   readonly outputPath: string;
-  readonly entryPrice: number;
+  readonly entryPrice?: number; // default: size-weighted average of the opening trades inside the chart window
   readonly isBullish: boolean;
+  readonly format?: OutputFormat; // default: png
+  readonly quality?: number; // 1-100 for webp, jpeg and avif (default: per-format setting)
+  readonly animation?: AnimationOptions; // replay the price path; requires webp or gif
+  readonly chartType?: ChartType; // default: line
+  readonly yScaleMode?: YScaleMode; // default: linear
+  readonly volumePanelRatio?: number; // share of canvas height for the volume panel (default: none)
+  readonly gapMode?: GapMode; // missing-candle handling (default: bridge)
+  readonly priceLevels?: readonly PriceLevel[];
+  readonly pnlBadge?: PnLBadgeOptions;
+  readonly showLastPriceLine?: boolean; // dashed line across the plot at the last price
+  readonly showHeader?: boolean; // token icon, symbol, name, period and last price
+  readonly theme?: ThemeName; // default: neon-dark
+  readonly styleOverrides?: ChartStyleOverrides;
+  readonly indicators?: readonly IndicatorSpec[];
+  readonly entryTime?: number; // position open time (ms); the chart window extends to include it
+  readonly exitTime?: number;
+  readonly exitPrice?: number;
+  readonly annotations?: readonly Annotation[];
+  readonly trades?: readonly Trade[];
+  readonly extendToTrades?: boolean; // widen the window back to the first trade instead of dropping earlier trades
+  readonly locale?: string; // BCP 47 tag or locale preset name (default: en-US)
+  readonly timeZone?: string; // IANA time zone for time labels (default: UTC)
+  readonly priceDigits?: number; // significant digits of price labels (default: 4)
 }
 
 // Configuration for chart generation with R2 upload support
 export interface ChartGenerationWithR2Config extends Omit<ChartGenerationConfig, "outputPath"> {
   readonly r2Bucket?: R2Bucket;
+  readonly iconLoader?: TokenIconLoader; // header icon source (default: uncached HTTP fetch)
   readonly outputPath?: string; // Optional when using R2
 }
 
+// JSON body of POST /generate-chart; embeddable chart query strings are converted to this shape
+export interface ChartRequest {
+  tokenAddress: string;
+  entryPrice?: number; // defaults to the average entry of trades
+  isBullish: boolean;
+  periodHours?: number;
+  width?: number;
+  height?: number;
+  size?: SizePresetName; // social media size preset instead of width/height
+  dpr?: number;
+  format?: OutputFormatOption; // png, webp, jpeg, avif, svg, pdf or auto (default: png)
+  quality?: number; // 1-100 for webp, jpeg and avif
+  animation?: AnimationOptions; // replay the price path as an animated webp or gif
+  chartType?: ChartType;
+  yScale?: YScaleMode; // linear, log, or percent change from entry
+  gapMode?: GapMode; // missing candles: break, bridge (default) or fill
+  showVolume?: boolean;
+  volumeRatio?: number; // share of canvas height for the volume panel
+  showHeader?: boolean; // token icon, symbol, name, period and last price above the chart
+  showLastPriceLine?: boolean; // dashed line across the plot at the last price
+  theme?: ThemeName;
+  style?: ChartStyleOverrides; // partial color/glow overrides applied on top of the theme
+  locale?: string; // BCP 47 tag or preset ("en", "ja") for dates and number grouping
+  timeZone?: string; // IANA time zone for time labels (default: UTC)
+  priceDigits?: number; // significant digits of price labels (default: 4)
+  indicators?: string[]; // indicator specs, e.g. ["ema:20", "bb:20:2", "vwap"]
+  entryTime?: number | string; // position open time as Unix ms or ISO 8601
+  exitTime?: number | string; // position close time for closed positions
+  exitPrice?: number;
+  priceLevels?: PriceLevel[]; // take-profit, stop-loss, liquidation and custom levels
+  annotations?: Annotation<number | string>[]; // event lines, callouts and ranges; times as Unix ms or ISO 8601
+  trades?: Trade<number | string>[]; // buy and sell fills; times as Unix ms or ISO 8601
+  extendToTrades?: boolean; // widen the window to the first trade instead of dropping earlier trades
+  showPnl?: boolean;
+  leverage?: number;
+  positionSize?: number; // position notional in USD for absolute PnL
+  store?: boolean; // upload to R2 and return the public URL instead of inline bytes
+}
+
+// Configuration for a multi-token comparison chart on a shared percent axis
+export interface ComparisonChartConfig {
+  readonly tokenAddresses: readonly string[];
+  readonly periodHours: number;
+  readonly width: number;
+  readonly height: number;
+  readonly dpr: number;
+  readonly theme?: ThemeName; // series colors come from the theme's indicatorColors
+  readonly styleOverrides?: ChartStyleOverrides;
+  readonly locale?: string;
+  readonly timeZone?: string;
+}
+
+// Comparison chart output with the per-token change over the window
+export interface ComparisonChartResult {
+  readonly buffer: Buffer; // optimized image bytes
+  readonly contentType: string;
+  readonly series: readonly Omit<ComparisonSeries, "points">[];
+}
+
+// Configuration for a batch of sparklines rendered into one vertical sprite sheet
+export interface SparklineBatchConfig {
+  readonly tokens: readonly string[]; // token symbols or addresses, one sprite row each in this order
+  readonly periodHours: number;
+  readonly width: number; // size of a single sparkline
+  readonly height: number;
+  readonly dpr: number;
+  readonly theme?: ThemeName;
+  readonly styleOverrides?: ChartStyleOverrides;
+}
+
+// One sprite row; address and change are null when the token is unknown or has no data (row left blank)
+export interface SparklineRow {
+  readonly token: string;
+  readonly tokenAddress: string | null;
+  readonly changePercent: number | null; // % change over the period
+}
+
+// Sparkline sprite sheet; row i occupies y = i * height
+export interface SparklineBatchResult {
+  readonly buffer: Buffer; // optimized image bytes
+  readonly contentType: string;
+  readonly rows: readonly SparklineRow[];
+}
+
 // Result from R2 upload operation
 export interface R2UploadResult {
   readonly success: boolean;
@@ -100,20 +504,45 @@ export interface R2UploadResult {
 // Extended chart generation result with R2 support
 export interface ChartGenerationResult {
   readonly metrics: ChartMetrics;
+  readonly buffer: Buffer; // optimized image bytes
+  readonly contentType: string;
   readonly localPath?: string;
   readonly r2Upload?: R2UploadResult;
 }
 
+// Token metadata from the tokens table
+export interface TokenDetails {
+  readonly address: string;
+  readonly name: string;
+  readonly symbol: string;
+  readonly iconUrl: string;
+}
+
+// Fetches raw token icon bytes for a URL, resolving to null when unavailable
+export interface TokenIconLoader {
+  load(url: string): Promise<Buffer | null>;
+}
+
+// Key-value storage for normalized token icon bytes
+export interface TokenIconCache {
+  get(key: string): Promise<Buffer | null>;
+  put(key: string, data: Buffer): Promise<void>;
+}
+
 // Database query parameters
 export interface OHLCVDataParams {
   readonly tokenAddress: string;
   readonly periodHours: number;
   readonly intervalMinutes: number;
+  readonly lookbackPoints?: number; // extra points before the window for indicator warm-up
+  readonly includeTime?: number; // timestamp (ms) the window must cover, e.g. the position entry
 }
 
 // Database query result
 export interface OHLCVDataResult {
-  readonly points: readonly Point[];
+  readonly points: readonly OHLCPoint[];
+  readonly lookback: readonly OHLCPoint[]; // points preceding the window, oldest first
   readonly tokenAddress: string;
-  readonly periodHours: number;
+  readonly periodHours: number; // fetched span: longer when extended to includeTime, shorter when cut by the row limit
+  readonly intervalMinutes: number;
 }
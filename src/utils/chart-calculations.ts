@@ -3,34 +3,31 @@
  * Mathematical functions for chart data processing and analysis
  */
 
-import type { ChartMetrics, Point } from "../types";
-
-/**
- * Format price with appropriate precision based on value magnitude
- */
-function formatPrice(price: number): number {
-  if (price === 0) return 0;
-
-  // For very small prices (< 0.01), use 6 significant digits
-  if (Math.abs(price) < 0.01) {
-    return Number(price.toPrecision(6));
-  }
-
-  // For normal prices, use 2 decimal places
-  return Number(price.toFixed(2));
-}
+import { CHART_DEFAULTS, CHART_STYLE, PRICE_FORMAT } from "../constants";
+import type {
+  ChartMetrics,
+  ChartOutputInfo,
+  DataGap,
+  OHLCPoint,
+  PnLSummary,
+  Point,
+  PriceFormatOptions,
+  Trade,
+} from "../types";
+import { formatPrice, roundToSignificant } from "./price-format";
 
 /**
  * Generate chart metrics for output
+ * Prices are rounded to significant digits so micro-cap prices keep their precision
  */
 export function generateChartMetrics(
   rawData: readonly Point[],
   downsampledData: readonly Point[],
   entryPrice: number,
   isBullish: boolean,
-  outputPath: string,
-  outputBytes: number,
+  output: ChartOutputInfo,
   dimensions: { width: number; height: number; dpr: number },
+  priceFormat: PriceFormatOptions = {},
 ): ChartMetrics {
   const lastPrice = rawData.length > 0 ? (rawData[rawData.length - 1]?.y ?? 0) : 0;
 
@@ -38,14 +35,297 @@ export function generateChartMetrics(
     pointsRaw: rawData.length,
     pointsDownsampled: downsampledData.length,
     isBullish,
-    entryPrice: formatPrice(entryPrice),
-    lastPrice: formatPrice(lastPrice),
-    outputBytes,
-    outputPath,
+    entryPrice: roundToSignificant(entryPrice, PRICE_FORMAT.METRICS_SIGNIFICANT_DIGITS),
+    lastPrice: roundToSignificant(lastPrice, PRICE_FORMAT.METRICS_SIGNIFICANT_DIGITS),
+    entryPriceLabel: formatPrice(entryPrice, priceFormat),
+    lastPriceLabel: formatPrice(lastPrice, priceFormat),
+    rawBytes: output.rawBytes,
+    outputBytes: output.outputBytes,
+    outputPath: output.path,
+    format: output.format,
+    frames: output.frames,
     size: `${dimensions.width}x${dimensions.height} @${dimensions.dpr}x`,
   };
 }
 
+/**
+ * Rebase a price series to % change from its first positive price
+ * Series starting later than the window (e.g. newly listed tokens) are rebased at their own first point
+ */
+export function rebaseToPercent(points: readonly Point[]): Point[] {
+  const baseIndex = points.findIndex((point) => point.y > 0);
+  const base = points[baseIndex]?.y;
+  if (base === undefined) return [];
+
+  // Points before the first positive price cannot be rebased and are dropped
+  return points.slice(baseIndex).map((point) => ({ t: point.t, y: (point.y / base - 1) * 100 }));
+}
+
+/**
+ * Check whether a point carries full OHLC values
+ */
+export function isOHLCPoint(point: Point): point is OHLCPoint {
+  return "o" in point && "h" in point && "l" in point;
+}
+
+/**
+ * Check whether a point carries a volume value
+ */
+export function hasVolume(point: Point): point is Point & { readonly v: number } {
+  return "v" in point && typeof point.v === "number";
+}
+
+/**
+ * Calculate how many candles fit into the plot width without overlapping
+ */
+export function calculateCandleCount(plotWidth: number, minSpacing: number): number {
+  return Math.max(1, Math.floor(plotWidth / minSpacing));
+}
+
+// Monday 1970-01-05 00:00 UTC; weekly time ticks are aligned to Mondays
+const WEEK_ANCHOR_MS = 4 * 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Round a step up to the nearest "nice" number: 1, 2 or 5 × 10^n
+ */
+export function calculateNiceStep(roughStep: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+  const normalized = roughStep / magnitude;
+  const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return nice * magnitude;
+}
+
+/**
+ * Pick round tick values (multiples of a 1/2/5 × 10^n step) inside [min, max], at most maxTicks of them
+ */
+export function calculateNiceTicks(min: number, max: number, maxTicks: number): { ticks: number[]; step: number } {
+  const range = max - min;
+  if (!(range > 0)) return { ticks: [min], step: Math.abs(min) || 1 };
+
+  let step = calculateNiceStep(range / Math.max(1, maxTicks));
+  while (Math.floor(max / step) - Math.ceil(min / step) + 1 > maxTicks) {
+    step = calculateNiceStep(step * 1.5);
+  }
+
+  // Round away float noise such as 0.30000000000000004 using the step's decimal places
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  const ticks: number[] = [];
+  for (let i = Math.ceil(min / step); i <= Math.floor(max / step); i++) {
+    ticks.push(Number((i * step).toFixed(decimals)));
+  }
+
+  return { ticks, step };
+}
+
+/**
+ * List timestamps inside [min, max] aligned to multiples of stepMs in local time, weekly steps on Mondays
+ * `offsetMs` is the time zone's offset from UTC, so daily ticks land on local midnight
+ */
+export function calculateTimeTicks(min: number, max: number, stepMs: number, offsetMs = 0): number[] {
+  const anchor = (stepMs % WEEK_MS === 0 ? WEEK_ANCHOR_MS : 0) - offsetMs;
+  const ticks: number[] = [];
+
+  for (let t = Math.ceil((min - anchor) / stepMs) * stepMs + anchor; t <= max; t += stepMs) {
+    ticks.push(t);
+  }
+
+  return ticks;
+}
+
+// Mantissa sets for log axis ticks, from dense to sparse
+const LOG_TICK_MANTISSAS: readonly (readonly number[])[] = [[1, 2, 5], [1, 3], [1]];
+
+/**
+ * List mantissa × 10^n values inside [min, max]
+ */
+function listLogTickCandidates(min: number, max: number, mantissas: readonly number[]): number[] {
+  const values: number[] = [];
+
+  for (let exponent = Math.floor(Math.log10(min)); exponent <= Math.ceil(Math.log10(max)); exponent++) {
+    for (const mantissa of mantissas) {
+      // Divide for negative exponents to avoid float noise such as 3 * 10 ** -4 = 0.00030000000000000003
+      const value = exponent < 0 ? mantissa / 10 ** -exponent : mantissa * 10 ** exponent;
+      if (value >= min && value <= max) values.push(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Pick tick values for a logarithmic axis between min and max (both > 0)
+ * Uses the densest of the 1-2-5, 1-3 and powers-of-ten sequences that fits into maxTicks,
+ * thinning powers of ten for very wide ranges; narrow ranges without enough round values
+ * fall back to evenly log-spaced ticks
+ */
+export function calculateLogTicks(min: number, max: number, maxTicks: number): number[] {
+  for (const mantissas of LOG_TICK_MANTISSAS) {
+    const ticks = listLogTickCandidates(min, max, mantissas);
+    if (ticks.length > maxTicks) continue;
+    if (ticks.length >= 3) return ticks;
+
+    const logMin = Math.log10(min);
+    const logMax = Math.log10(max);
+    const intervals = Math.max(1, maxTicks - 1);
+    return Array.from({ length: intervals + 1 }, (_, i) => 10 ** (logMin + ((logMax - logMin) * i) / intervals));
+  }
+
+  const decades = listLogTickCandidates(min, max, [1]);
+  const stride = Math.ceil(decades.length / maxTicks);
+  return decades.filter((_, index) => index % stride === 0);
+}
+
+/**
+ * Get the typical time step between consecutive points: the median delta, so gaps do not widen it
+ * Returns 0 for fewer than two points; points must be sorted by time
+ */
+export function getTypicalInterval(points: readonly Point[]): number {
+  const deltas: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+    if (prev && curr && curr.t > prev.t) deltas.push(curr.t - prev.t);
+  }
+
+  deltas.sort((a, b) => a - b);
+  return deltas[Math.floor(deltas.length / 2)] ?? 0;
+}
+
+/**
+ * Find the point closest in time to the timestamp; points must be sorted by time
+ */
+export function findNearestPoint<T extends Point>(points: readonly T[], timestamp: number): T | undefined {
+  let low = 0;
+  let high = points.length - 1;
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((points[mid]?.t ?? 0) < timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const after = points[low];
+  const before = points[low - 1];
+  if (!before || !after) return after ?? before;
+  return timestamp - before.t <= after.t - timestamp ? before : after;
+}
+
+/**
+ * Find the point closest in time to the timestamp, or undefined when the timestamp lies more than `tolerance`
+ * before the first or after the last point; points must be sorted by time
+ */
+export function findPointInRange<T extends Point>(
+  points: readonly T[],
+  timestamp: number,
+  tolerance: number,
+): T | undefined {
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last || timestamp < first.t - tolerance || timestamp > last.t + tolerance) return undefined;
+  return findNearestPoint(points, timestamp);
+}
+
+/**
+ * Spread vertically stacked labels so they do not overlap
+ * Takes desired center positions and returns adjusted centers in the same order,
+ * keeping every label at least `labelHeight` apart and inside [minY, maxY]
+ */
+export function resolveLabelCollisions(
+  desiredYs: readonly number[],
+  labelHeight: number,
+  minY: number,
+  maxY: number,
+): number[] {
+  const order = desiredYs.map((y, index) => ({ y, index })).sort((a, b) => a.y - b.y);
+  const halfHeight = labelHeight / 2;
+
+  // Push labels down so each one clears the previous label
+  let previous = Number.NEGATIVE_INFINITY;
+  for (const item of order) {
+    item.y = Math.max(item.y, minY + halfHeight, previous + labelHeight);
+    previous = item.y;
+  }
+
+  // Pull labels back up if the last ones ran past the bottom edge
+  let next = Number.POSITIVE_INFINITY;
+  for (let i = order.length - 1; i >= 0; i--) {
+    const item = order[i];
+    if (!item) continue;
+    item.y = Math.min(item.y, maxY - halfHeight, next - labelHeight);
+    next = item.y;
+  }
+
+  const resolved = new Array<number>(desiredYs.length);
+  for (const item of order) {
+    resolved[item.index] = item.y;
+  }
+  return resolved;
+}
+
+/**
+ * Find the position closest to `desiredY` where a label clears every already placed label
+ * and stays inside [minY, maxY]; the placed labels keep their positions
+ * Falls back to the desired position (kept inside the bounds) when no free position exists
+ */
+export function findFreeLabelPosition(
+  desiredY: number,
+  placedYs: readonly number[],
+  labelHeight: number,
+  minY: number,
+  maxY: number,
+): number {
+  const halfHeight = labelHeight / 2;
+  const clamp = (y: number) => Math.min(Math.max(y, minY + halfHeight), maxY - halfHeight);
+
+  // The nearest free position is either the desired one or directly above or below a placed label
+  const candidates = [desiredY, ...placedYs.flatMap((y) => [y - labelHeight, y + labelHeight])].map(clamp);
+  const free = candidates.filter((y) => placedYs.every((placed) => Math.abs(placed - y) >= labelHeight - 1e-6));
+
+  return free.reduce(
+    (best, y) => (Math.abs(y - desiredY) < Math.abs(best - desiredY) ? y : best),
+    free[0] ?? clamp(desiredY),
+  );
+}
+
+/**
+ * Calculate the size-weighted average entry price of a position from its fills
+ * Opening fills are buys for longs and sells for shorts; returns undefined when there are none
+ */
+export function calculateAverageEntry(trades: readonly Trade[], isBullish: boolean): number | undefined {
+  const openingSide = isBullish ? "buy" : "sell";
+  const fills = trades.filter((trade) => trade.side === openingSide);
+  const totalSize = fills.reduce((sum, trade) => sum + trade.size, 0);
+  if (totalSize <= 0) return undefined;
+
+  return fills.reduce((sum, trade) => sum + trade.price * trade.size, 0) / totalSize;
+}
+
+/**
+ * Calculate position PnL since entry
+ * The percentage is the return on margin (price change × leverage, sign flipped for shorts);
+ * the absolute USD amount is derived from the position notional when it is given
+ */
+export function calculatePnL(
+  entryPrice: number,
+  lastPrice: number,
+  isBullish: boolean,
+  leverage = 1,
+  positionSize?: number,
+): PnLSummary {
+  const direction = isBullish ? 1 : -1;
+  const priceChange = entryPrice > 0 ? ((lastPrice - entryPrice) / entryPrice) * direction : 0;
+
+  return {
+    percent: priceChange * leverage * 100,
+    absolute: positionSize !== undefined ? positionSize * priceChange : undefined,
+    leverage,
+  };
+}
+
 /**
  * Calculate optimal downsampling width based on chart dimensions
  */
@@ -54,17 +334,117 @@ export function calculateOptimalDownsampleWidth(chartWidth: number, dpr: number,
 }
 
 /**
- * Validate point data integrity
+ * Validate a single point - extracted to reduce complexity
  */
-export function validatePointData(points: readonly Point[]): {
+function validatePoint(point: Point | undefined, index: number): string[] {
+  if (!point) {
+    return [`Missing point at index ${index}`];
+  }
+
+  const errors: string[] = [];
+
+  if (!Number.isFinite(point.t) || !Number.isFinite(point.y)) {
+    errors.push(`Invalid values at index ${index}: t=${point.t}, y=${point.y}`);
+  }
+
+  if (point.y < 0) {
+    errors.push(`Negative price at index ${index}: ${point.y}`);
+  }
+
+  if (isOHLCPoint(point) && (!Number.isFinite(point.o) || !Number.isFinite(point.h) || !Number.isFinite(point.l))) {
+    errors.push(`Invalid OHLC values at index ${index}: o=${point.o}, h=${point.h}, l=${point.l}`);
+  }
+
+  if (hasVolume(point) && (!Number.isFinite(point.v) || point.v < 0)) {
+    errors.push(`Invalid volume at index ${index}: ${point.v}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Find runs of missing candles: consecutive points more than GAPS.MIN_INTERVALS expected intervals apart
+ */
+export function detectGaps(points: readonly Point[], intervalMinutes: number): DataGap[] {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const gaps: DataGap[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+
+    if (prev && curr && curr.t - prev.t > intervalMs * CHART_STYLE.GAPS.MIN_INTERVALS) {
+      gaps.push({ start: prev.t, end: curr.t, missingPoints: Math.ceil((curr.t - prev.t) / intervalMs) - 1 });
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Insert flat candles at the last close for every missing interval of each gap
+ * Only detected gaps are filled, so holes of up to GAPS.MIN_INTERVALS intervals stay as they are
+ */
+export function forwardFillGaps(
+  points: readonly OHLCPoint[],
+  gaps: readonly DataGap[],
+  intervalMinutes: number,
+): OHLCPoint[] {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const gapsByStart = new Map(gaps.map((gap) => [gap.start, gap]));
+
+  return points.flatMap((point) => {
+    const gap = gapsByStart.get(point.t);
+    if (!gap) return [point];
+
+    const filled = Array.from({ length: gap.missingPoints }, (_, index) => ({
+      t: point.t + (index + 1) * intervalMs,
+      y: point.y,
+      o: point.y,
+      h: point.y,
+      l: point.y,
+      v: 0,
+    }));
+    return [point, ...filled];
+  });
+}
+
+/**
+ * Indices of the points that follow a gap, where a line through the points has to be broken
+ * Works on downsampled points as well, since every gap lies between two consecutive kept points
+ */
+export function findGapBreaks(points: readonly Point[], gaps: readonly DataGap[]): number[] {
+  if (gaps.length === 0) return [];
+
+  const breaks: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+
+    if (prev && curr && gaps.some((gap) => prev.t <= gap.start && curr.t >= gap.end)) {
+      breaks.push(i);
+    }
+  }
+
+  return breaks;
+}
+
+/**
+ * Validate point data integrity and report missing-candle gaps, which do not make the data invalid
+ */
+export function validatePointData(
+  points: readonly Point[],
+  intervalMinutes: number = CHART_DEFAULTS.INTERVAL_MINUTES,
+): {
   isValid: boolean;
   errors: string[];
+  gaps: DataGap[];
 } {
   const errors: string[] = [];
 
   if (points.length === 0) {
     errors.push("Data is empty");
-    return { isValid: false, errors };
+    return { isValid: false, errors, gaps: [] };
   }
 
   if (points.length < 2) {
@@ -73,19 +453,7 @@ export function validatePointData(points: readonly Point[]): {
 
   // Check for NaN or invalid values
   for (let i = 0; i < points.length; i++) {
-    const point = points[i];
-    if (!point) {
-      errors.push(`Missing point at index ${i}`);
-      continue;
-    }
-
-    if (!Number.isFinite(point.t) || !Number.isFinite(point.y)) {
-      errors.push(`Invalid values at index ${i}: t=${point.t}, y=${point.y}`);
-    }
-
-    if (point.y < 0) {
-      errors.push(`Negative price at index ${i}: ${point.y}`);
-    }
+    errors.push(...validatePoint(points[i], i));
   }
 
   // Check time ordering
@@ -101,5 +469,6 @@ export function validatePointData(points: readonly Point[]): {
   return {
     isValid: errors.length === 0,
     errors,
+    gaps: errors.length === 0 ? detectGaps(points, intervalMinutes) : [],
   };
 }
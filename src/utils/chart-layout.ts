@@ -0,0 +1,86 @@
+/**
+ * Layout engine for chart canvases
+ * Picks a landscape, square or portrait profile from the aspect ratio and derives padding, font size,
+ * tick density and header / volume panel placement from it
+ */
+
+import { CHART_STYLE } from "../constants";
+import type { ChartConfigOptions, ChartLayout, ChartPadding, LayoutOrientation, VolumePanelLayout } from "../types";
+
+type LayoutProfile = (typeof CHART_STYLE.LAYOUT.PROFILES)[number];
+
+/**
+ * Find the layout profile for a canvas size
+ */
+function getLayoutProfile(width: number, height: number): LayoutProfile {
+  const { PROFILES } = CHART_STYLE.LAYOUT;
+  const aspect = width / height;
+  // The portrait profile starts at aspect 0, so only NaN sizes reach the fallback
+  return PROFILES.find((profile) => aspect >= profile.MIN_ASPECT) ?? PROFILES[0];
+}
+
+/**
+ * Layout orientation of a canvas size, e.g. "portrait" for 1080x1920
+ */
+export function getLayoutOrientation(width: number, height: number): LayoutOrientation {
+  return getLayoutProfile(width, height).ORIENTATION;
+}
+
+/**
+ * Axis label font size (including the dpr factor)
+ * Follows the width, except on banners wider than the reference aspect where the height limits it
+ */
+function getAxisFontSize(width: number, height: number, dpr: number, profile: LayoutProfile): number {
+  const base = Math.min(width, height * CHART_STYLE.LAYOUT.REFERENCE_ASPECT);
+  return base * CHART_STYLE.AXIS.FONT_SIZE_RATIO * profile.FONT_SCALE * dpr;
+}
+
+/**
+ * Padding around the plot area; the right and bottom edges always fit the axis labels
+ */
+function getLayoutPadding(width: number, height: number, fontSize: number, profile: LayoutProfile): ChartPadding {
+  const { LEFT_RATIO, RIGHT_RATIO, TOP_RATIO, BOTTOM_RATIO } = profile.PADDING;
+  const { MIN_RIGHT_PADDING, MIN_BOTTOM_PADDING } = CHART_STYLE.LAYOUT;
+
+  return {
+    l: Math.round(width * LEFT_RATIO),
+    r: Math.round(Math.max(width * RIGHT_RATIO, fontSize * MIN_RIGHT_PADDING)),
+    t: Math.round(height * TOP_RATIO),
+    b: Math.round(Math.max(height * BOTTOM_RATIO, fontSize * MIN_BOTTOM_PADDING)),
+  };
+}
+
+/**
+ * Create volume panel layout from its share of the canvas height
+ */
+function createVolumePanelLayout(height: number, ratio: number | undefined): VolumePanelLayout | null {
+  if (!ratio || ratio <= 0) return null;
+
+  const clampedRatio = Math.min(ratio, CHART_STYLE.VOLUME.MAX_PANEL_RATIO);
+  return {
+    height: Math.round(height * clampedRatio),
+    gap: Math.round(height * CHART_STYLE.VOLUME.GAP_RATIO),
+  };
+}
+
+/**
+ * Compute the chart layout for a canvas size
+ */
+export function computeChartLayout(
+  width: number,
+  height: number,
+  dpr: number,
+  options: Pick<ChartConfigOptions, "showHeader" | "volumePanelRatio"> = {},
+): ChartLayout {
+  const profile = getLayoutProfile(width, height);
+  const fontSize = getAxisFontSize(width, height, dpr, profile);
+
+  return {
+    orientation: profile.ORIENTATION,
+    padding: getLayoutPadding(width, height, fontSize, profile),
+    header: options.showHeader ? { height: Math.round(height * profile.HEADER_RATIO) } : null,
+    volumePanel: createVolumePanelLayout(height, options.volumePanelRatio),
+    fontSize,
+    minLabelSpacing: profile.MIN_LABEL_SPACING,
+  };
+}
@@ -0,0 +1,355 @@
+/**
+ * Query-string parsing for embeddable chart URLs
+ * Maps parameters such as `?entry=142.5&side=long&hours=24&w=1200&h=675` onto a chart request body,
+ * `?tokens=SOL,JUP,WIF&hours=168` onto a comparison chart config
+ * and `?tokens=SOL,JUP&w=120&h=40` onto a sparkline batch config
+ */
+
+import {
+  CHART_DEFAULTS,
+  CHART_LIMITS,
+  CHART_STYLE,
+  OUTPUT_EXTENSIONS,
+  OUTPUT_FORMATS,
+  SIZE_PRESETS,
+} from "../constants";
+import type {
+  AnimationOptions,
+  CanvasSize,
+  ChartGenerationWithR2Config,
+  ChartRequest,
+  ChartType,
+  ComparisonChartConfig,
+  GapMode,
+  OutputFormatOption,
+  PriceLevel,
+  PriceLevelType,
+  SizePresetName,
+  SparklineBatchConfig,
+  ThemeName,
+  YScaleMode,
+} from "../types";
+import { validateLabelOptions, validateSizeOptions, validateThemeOptions } from "./chart-request";
+
+type ChartQueryResult =
+  | { readonly body: ChartRequest; readonly error?: undefined }
+  | { readonly body?: undefined; readonly error: string };
+
+type ComparisonQueryResult =
+  | {
+      readonly tokens: readonly string[];
+      readonly config: Omit<ComparisonChartConfig, "tokenAddresses">;
+      readonly error?: undefined;
+    }
+  | { readonly tokens?: undefined; readonly config?: undefined; readonly error: string };
+
+type SparklineQueryResult =
+  | { readonly config: SparklineBatchConfig; readonly error?: undefined }
+  | { readonly config?: undefined; readonly error: string };
+
+type QueryParseResult<T> = { readonly value: T; readonly error?: undefined } | { readonly error: string };
+
+type ChartDimensionOptions = Pick<ChartGenerationWithR2Config, "periodHours" | "width" | "height" | "dpr">;
+
+type ChartSizeRequest = Pick<ChartRequest, "periodHours" | "width" | "height" | "size" | "dpr">;
+
+type ChartRenderRequest = Pick<
+  ChartRequest,
+  "chartType" | "yScale" | "gapMode" | "showVolume" | "volumeRatio" | "showHeader" | "showLastPriceLine" | "theme"
+>;
+
+type LabelFormatRequest = Pick<ChartRequest, "locale" | "timeZone" | "priceDigits">;
+
+// Query parameter names for price level shortcuts; each may be repeated
+const PRICE_LEVEL_PARAMS: ReadonlyArray<readonly [string, PriceLevelType]> = [
+  ["tp", "tp"],
+  ["sl", "sl"],
+  ["liq", "liquidation"],
+  ["level", "custom"],
+];
+
+/**
+ * Parse an optional number query parameter
+ * Returns undefined when absent or empty and NaN when not a number, so the request validators reject it
+ */
+function parseNumber(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return undefined;
+  return Number(raw);
+}
+
+/**
+ * Parse a boolean flag parameter (`1`, `true`, `yes` or present without value)
+ */
+function parseFlag(params: URLSearchParams, name: string): boolean {
+  const raw = params.get(name);
+  if (raw === null) return false;
+  return ["", "1", "true", "yes"].includes(raw.toLowerCase());
+}
+
+/**
+ * Parse position side (`long`/`short`, default long) into the isBullish flag
+ */
+function parseSide(params: URLSearchParams): boolean | undefined {
+  const side = (params.get("side") ?? "long").toLowerCase();
+  if (side === "long") return true;
+  if (side === "short") return false;
+  return undefined;
+}
+
+/**
+ * Convert chart URL query parameters into a chart request body
+ * The body still has to pass validateChartRequest, so the query string and the JSON API share one set of limits;
+ * validation errors name the JSON fields (e.g. `width` for `w`)
+ *
+ * Supported parameters:
+ * - `entry` (required): entry price
+ * - `side`: `long` | `short` (default: long)
+ * - `hours`: chart period in hours
+ * - `etime` / `xtime`: position entry and exit time (Unix ms or ISO 8601); `exit`: exit price
+ * - `w` / `h`: chart size in pixels
+ * - `preset`: `twitter` | `og` | `square` | `story` | `telegram` size preset instead of `w` / `h`
+ * - `dpr`: device pixel ratio
+ * - `type`: `line` | `candles` | `ohlc-bars` (default: line)
+ * - `scale`: `linear` | `log` | `percent` (axis labeled as % change from entry; default: linear)
+ * - `gaps`: `break` | `bridge` | `fill` handling of missing candles (default: bridge)
+ * - `volume`: `1`/`true` to show the volume panel
+ * - `vratio`: volume panel share of the canvas height
+ * - `header`: `1`/`true` to show the token header (icon, symbol, name, period, last price)
+ * - `lastline`: `1`/`true` to draw a dashed line across the plot at the last price
+ * - `theme`: `neon-dark` | `light` | `high-contrast` | `colorblind` | `monochrome` (default: neon-dark)
+ * - `locale`: BCP 47 tag or preset (`en`, `ja`) for dates and number grouping (default: en-US)
+ * - `tz`: IANA time zone for time labels, e.g. `Asia/Tokyo` (default: UTC)
+ * - `digits`: significant digits of price labels (default: 4)
+ * - `q`: quality of webp, jpeg and avif output, 1-100 (default: per-format setting)
+ * - `anim`: `1`/`true` to animate the price path (webp or gif), with optional `frames`, `dur` (ms) and `loop`
+ * - `tp` / `sl` / `liq` / `level`: take-profit, stop-loss, liquidation and custom price levels (repeatable)
+ * - `ind`: indicator spec such as `ema:20`, `sma:50`, `bb:20:2` or `vwap` (repeatable)
+ * - `pnl`: `1`/`true` to show the PnL badge, with optional `lev` (leverage) and `size` (USD notional)
+ */
+export function parseChartQuery(
+  tokenAddress: string,
+  params: URLSearchParams,
+  format: OutputFormatOption,
+): ChartQueryResult {
+  const isBullish = parseSide(params);
+  if (isBullish === undefined) {
+    return { error: "side must be either long or short" };
+  }
+
+  return {
+    body: {
+      tokenAddress,
+      entryPrice: parseNumber(params, "entry"),
+      isBullish,
+      format,
+      ...parseSizeRequest(params),
+      ...parseRenderRequest(params),
+      ...parseLabelRequest(params),
+      quality: parseNumber(params, "q"),
+      animation: parseAnimationRequest(params),
+      priceLevels: parsePriceLevels(params),
+      indicators: params.getAll("ind"),
+      entryTime: params.get("etime") ?? undefined,
+      exitTime: params.get("xtime") ?? undefined,
+      exitPrice: parseNumber(params, "exit"),
+      showPnl: parseFlag(params, "pnl"),
+      leverage: parseNumber(params, "lev"),
+      positionSize: parseNumber(params, "size"),
+    },
+  };
+}
+
+/**
+ * Build comparison chart options from URL query parameters
+ * Token symbols or addresses are returned unresolved
+ *
+ * Supported parameters:
+ * - `tokens` (required): comma-separated token symbols or addresses, e.g. `SOL,JUP,WIF`
+ * - `hours`, `w`, `h`, `preset`, `dpr`: period and size as for single-token charts
+ * - `theme`, `locale`, `tz`: colors (series use the theme's indicator palette) and label formatting
+ */
+export function parseComparisonQuery(params: URLSearchParams): ComparisonQueryResult {
+  const { MIN_COMPARISON_TOKENS: min, MAX_COMPARISON_TOKENS: max } = CHART_LIMITS;
+  const tokens = parseTokenList(params);
+
+  if (tokens.length < min || tokens.length > max || new Set(tokens).size !== tokens.length) {
+    return { error: `tokens must list ${min} to ${max} distinct comma-separated symbols or addresses` };
+  }
+
+  const dimensions = parseDimensions(params);
+  if (dimensions.error !== undefined) {
+    return { error: dimensions.error };
+  }
+
+  const theme = parseTheme(params);
+  if (theme.error !== undefined) {
+    return { error: theme.error };
+  }
+
+  const labels = parseLabelRequest(params);
+  const labelError = validateLabelOptions(labels);
+  if (labelError) {
+    return { error: labelError };
+  }
+
+  return {
+    tokens,
+    config: {
+      ...dimensions.value,
+      theme: theme.value,
+      locale: labels.locale,
+      timeZone: labels.timeZone,
+    },
+  };
+}
+
+/**
+ * Build a sparkline batch config from URL query parameters
+ * Token symbols or addresses are returned unresolved; duplicates are allowed and keep their own row
+ *
+ * Supported parameters:
+ * - `tokens` (required): comma-separated token symbols or addresses, one sprite row each
+ * - `hours`, `dpr`: period and pixel density as for single-token charts
+ * - `w`, `h`: size of a single sparkline (default 120x40); the sprite is `h` times the token count tall
+ * - `theme`: color theme; each line is colored by its own period change
+ */
+export function parseSparklineQuery(params: URLSearchParams): SparklineQueryResult {
+  const tokens = parseTokenList(params);
+  if (tokens.length === 0 || tokens.length > CHART_LIMITS.MAX_SPARKLINE_BATCH) {
+    return { error: `tokens must list 1 to ${CHART_LIMITS.MAX_SPARKLINE_BATCH} comma-separated symbols or addresses` };
+  }
+
+  const dimensions = parseDimensions(params, {
+    width: CHART_STYLE.SPARKLINE.DEFAULT_WIDTH,
+    height: CHART_STYLE.SPARKLINE.DEFAULT_HEIGHT,
+  });
+  if (dimensions.error !== undefined) {
+    return { error: dimensions.error };
+  }
+  if (dimensions.value.height * tokens.length > CHART_LIMITS.MAX_HEIGHT) {
+    return { error: `h times the number of tokens must be at most ${CHART_LIMITS.MAX_HEIGHT}` };
+  }
+
+  const theme = parseTheme(params);
+  if (theme.error !== undefined) {
+    return { error: theme.error };
+  }
+
+  return { config: { tokens, ...dimensions.value, theme: theme.value } };
+}
+
+/**
+ * Parse and validate the optional theme preset parameter
+ */
+function parseTheme(params: URLSearchParams): QueryParseResult<ThemeName | undefined> {
+  const theme = (params.get("theme") ?? undefined) as ThemeName | undefined;
+  const error = validateThemeOptions({ theme });
+  return error ? { error } : { value: theme };
+}
+
+/**
+ * Split the comma-separated `tokens` parameter, dropping blank entries
+ */
+function parseTokenList(params: URLSearchParams): string[] {
+  return (params.get("tokens") ?? "")
+    .split(",")
+    .map((token) => token.trim())
+    .filter((token) => token !== "");
+}
+
+/**
+ * Parse period, canvas size (`w`, `h` or a `preset`; `size` is already taken by the PnL badge notional)
+ * and pixel ratio parameters
+ */
+function parseSizeRequest(params: URLSearchParams): ChartSizeRequest {
+  return {
+    periodHours: parseNumber(params, "hours"),
+    width: parseNumber(params, "w"),
+    height: parseNumber(params, "h"),
+    size: (params.get("preset") ?? undefined) as SizePresetName | undefined,
+    dpr: parseNumber(params, "dpr"),
+  };
+}
+
+/**
+ * Parse and validate period and canvas size parameters, applying defaults
+ */
+function parseDimensions(
+  params: URLSearchParams,
+  defaultSize: CanvasSize = { width: CHART_DEFAULTS.WIDTH, height: CHART_DEFAULTS.HEIGHT },
+): QueryParseResult<ChartDimensionOptions> {
+  const request = parseSizeRequest(params);
+  const error = validateSizeOptions(request);
+  if (error) {
+    return { error };
+  }
+
+  const size = request.size ? SIZE_PRESETS[request.size] : defaultSize;
+  return {
+    value: {
+      periodHours: request.periodHours ?? CHART_DEFAULTS.PERIOD_HOURS,
+      width: Math.round(request.width ?? size.width),
+      height: Math.round(request.height ?? size.height),
+      dpr: request.dpr ?? CHART_DEFAULTS.DPR,
+    },
+  };
+}
+
+/**
+ * Parse rendering parameters (chart type, y-scale, gaps, volume panel, header, last-price line, theme)
+ */
+function parseRenderRequest(params: URLSearchParams): ChartRenderRequest {
+  return {
+    chartType: (params.get("type") ?? undefined) as ChartType | undefined,
+    yScale: (params.get("scale") ?? undefined) as YScaleMode | undefined,
+    gapMode: (params.get("gaps") ?? undefined) as GapMode | undefined,
+    showVolume: parseFlag(params, "volume"),
+    volumeRatio: parseNumber(params, "vratio"),
+    showHeader: parseFlag(params, "header"),
+    showLastPriceLine: parseFlag(params, "lastline"),
+    theme: (params.get("theme") ?? undefined) as ThemeName | undefined,
+  };
+}
+
+/**
+ * Parse label locale, time zone and precision parameters such as `?locale=ja&tz=Asia/Tokyo&digits=5`
+ */
+function parseLabelRequest(params: URLSearchParams): LabelFormatRequest {
+  return {
+    locale: params.get("locale") ?? undefined,
+    timeZone: params.get("tz") ?? undefined,
+    priceDigits: parseNumber(params, "digits"),
+  };
+}
+
+/**
+ * Parse animation parameters such as `?anim=1&frames=30&dur=3000&loop=0`; undefined unless `anim` is set
+ */
+function parseAnimationRequest(params: URLSearchParams): AnimationOptions | undefined {
+  if (!parseFlag(params, "anim")) return undefined;
+
+  return {
+    frames: parseNumber(params, "frames"),
+    durationMs: parseNumber(params, "dur"),
+    loop: parseNumber(params, "loop"),
+  };
+}
+
+/**
+ * Map an image path extension to an output format, e.g. "jpg" to jpeg
+ * A missing extension selects "auto"; unknown extensions return null
+ */
+export function parseFormatExtension(extension: string | undefined): OutputFormatOption | null {
+  if (extension === undefined) return "auto";
+
+  const normalized = extension.toLowerCase();
+  return OUTPUT_FORMATS.find((format) => format === normalized || OUTPUT_EXTENSIONS[format] === normalized) ?? null;
+}
+
+/**
+ * Parse price level shortcut parameters such as `?tp=160&sl=130&liq=120`
+ */
+function parsePriceLevels(params: URLSearchParams): PriceLevel[] {
+  return PRICE_LEVEL_PARAMS.flatMap(([name, type]) => params.getAll(name).map((raw) => ({ type, price: Number(raw) })));
+}
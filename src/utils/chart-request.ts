@@ -0,0 +1,433 @@
+/**
+ * Chart request validation and config creation
+ * Validates the JSON body of POST /generate-chart, and query-string charts converted to the same shape,
+ * against one set of limits and maps it onto a chart generation config
+ */
+
+import {
+  ANIMATION,
+  ANIMATION_FORMATS,
+  CHART_DEFAULTS,
+  CHART_LIMITS,
+  CHART_STYLE,
+  CHART_TYPES,
+  GAP_MODES,
+  IMAGE_ENCODERS,
+  LOCALE_PRESET_NAMES,
+  OUTPUT_FORMATS,
+  PRICE_FORMAT,
+  SIZE_PRESET_NAMES,
+  SIZE_PRESETS,
+  THEME_NAMES,
+  Y_SCALE_MODES,
+} from "../constants";
+import type { CanvasSize, ChartGenerationWithR2Config, ChartRequest, OutputFormat } from "../types";
+import { calculateAverageEntry } from "./chart-calculations";
+import { parseIndicatorSpec } from "./indicators";
+import {
+  fitsAnimationBudget,
+  isAnimationDuration,
+  isAnimationFormat,
+  isAnimationFrameCount,
+  isAnimationLoopCount,
+  isChartType,
+  isGapMode,
+  isImageQuality,
+  isLocale,
+  isOutputFormatOption,
+  isPositiveNumber,
+  isPriceDigits,
+  isSizePresetName,
+  isThemeName,
+  isTimeZone,
+  isYScaleMode,
+  parseAnnotationTimes,
+  parseTimestamp,
+  parseTradeTime,
+  validateAnnotations,
+  validateIndicators,
+  validatePriceLevels,
+  validateStyleOverrides,
+  validateTrades,
+} from "./validation";
+
+type ChartSizeRequest = Pick<ChartRequest, "periodHours" | "width" | "height" | "size" | "dpr">;
+
+/**
+ * Validate chart request body, returning an error message for the first invalid field
+ */
+export function validateChartRequest(body: ChartRequest): string | null {
+  return (
+    validateRequiredFields(body) ??
+    validateSizeOptions(body) ??
+    validateOutputOptions(body) ??
+    validateAnimationOptions(body) ??
+    validateRenderOptions(body) ??
+    validateDisplayOptions(body) ??
+    validateThemeOptions(body) ??
+    validateLabelOptions(body) ??
+    validateOverlayOptions(body) ??
+    validatePnLOptions(body) ??
+    validateTradeOptions(body) ??
+    validatePositionTiming(body)
+  );
+}
+
+/**
+ * Validate required position fields
+ */
+function validateRequiredFields(body: ChartRequest): string | null {
+  const { tokenAddress, entryPrice, isBullish, trades } = body;
+
+  if (!tokenAddress || typeof tokenAddress !== "string") {
+    return "tokenAddress is required";
+  }
+
+  // Positions given as trades may leave the entry to the average of their fills
+  if (entryPrice === undefined ? trades === undefined : !isPositiveNumber(entryPrice)) {
+    return "entryPrice is required and must be a positive number unless trades are given";
+  }
+
+  if (typeof isBullish !== "boolean") {
+    return "isBullish is required and must be a boolean";
+  }
+
+  return null;
+}
+
+/**
+ * Validate the period, canvas size and pixel ratio, and the size preset, which replaces width and height
+ */
+export function validateSizeOptions(body: ChartSizeRequest): string | null {
+  const { size, width, height } = body;
+
+  const dimensionsError = validateDimensions(body);
+  if (dimensionsError) return dimensionsError;
+
+  if (size === undefined) return null;
+
+  if (!isSizePresetName(size)) {
+    return `size must be one of: ${SIZE_PRESET_NAMES.join(", ")}`;
+  }
+
+  if (width !== undefined || height !== undefined) {
+    return "size cannot be combined with width or height";
+  }
+
+  return null;
+}
+
+/**
+ * Validate period, canvas size and pixel ratio against the chart limits
+ */
+function validateDimensions(body: ChartSizeRequest): string | null {
+  const { periodHours, width, height, dpr } = body;
+  const isWithin = (value: unknown, max: number) => value === undefined || (isPositiveNumber(value) && value <= max);
+
+  if (!isWithin(periodHours, CHART_LIMITS.MAX_PERIOD_HOURS)) {
+    return `periodHours must be a positive number up to ${CHART_LIMITS.MAX_PERIOD_HOURS}`;
+  }
+
+  if (!isWithin(width, CHART_LIMITS.MAX_WIDTH) || !isWithin(height, CHART_LIMITS.MAX_HEIGHT)) {
+    return `width and height must be positive numbers up to ${CHART_LIMITS.MAX_WIDTH}x${CHART_LIMITS.MAX_HEIGHT}`;
+  }
+
+  if (!isWithin(dpr, CHART_LIMITS.MAX_DPR)) {
+    return `dpr must be a positive number up to ${CHART_LIMITS.MAX_DPR}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate output format and encoder quality
+ */
+function validateOutputOptions(body: ChartRequest): string | null {
+  const { format, quality } = body;
+
+  if (format !== undefined && !isOutputFormatOption(format)) {
+    return `format must be one of: ${OUTPUT_FORMATS.join(", ")}, auto`;
+  }
+
+  if (quality !== undefined && !isImageQuality(quality)) {
+    return `quality must be an integer from ${IMAGE_ENCODERS.MIN_QUALITY} to ${IMAGE_ENCODERS.MAX_QUALITY}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate animation settings and that the output format can carry an animation
+ */
+function validateAnimationOptions(body: ChartRequest): string | null {
+  const { animation, format } = body;
+  if (animation === undefined) return null;
+
+  if (typeof animation !== "object" || animation === null || Array.isArray(animation)) {
+    return "animation must be an object";
+  }
+
+  if (format !== undefined && format !== "auto" && !isAnimationFormat(format)) {
+    return `animation requires format ${ANIMATION_FORMATS.join(", ")} or auto`;
+  }
+
+  const { frames, durationMs, loop } = animation;
+
+  if (frames !== undefined && !isAnimationFrameCount(frames)) {
+    return `animation.frames must be an integer from ${ANIMATION.MIN_FRAMES} to ${ANIMATION.MAX_FRAMES}`;
+  }
+
+  if (durationMs !== undefined && !isAnimationDuration(durationMs)) {
+    return `animation.durationMs must be an integer from ${ANIMATION.MIN_DURATION_MS} to ${ANIMATION.MAX_DURATION_MS}`;
+  }
+
+  if (loop !== undefined && !isAnimationLoopCount(loop)) {
+    return `animation.loop must be an integer from 0 (forever) to ${ANIMATION.MAX_LOOP}`;
+  }
+
+  const { width, height } = resolveCanvasSize(body);
+  if (!fitsAnimationBudget(width, height, body.dpr || CHART_DEFAULTS.DPR)) {
+    return "width, height and dpr are too large for an animation; reduce the size or dpr";
+  }
+
+  return null;
+}
+
+/**
+ * Validate optional rendering fields (chart type, y-scale, gaps, volume panel)
+ */
+function validateRenderOptions(body: ChartRequest): string | null {
+  const { chartType, yScale, gapMode, showVolume, volumeRatio } = body;
+
+  if (chartType !== undefined && !isChartType(chartType)) {
+    return `chartType must be one of: ${CHART_TYPES.join(", ")}`;
+  }
+
+  if (yScale !== undefined && !isYScaleMode(yScale)) {
+    return `yScale must be one of: ${Y_SCALE_MODES.join(", ")}`;
+  }
+
+  if (gapMode !== undefined && !isGapMode(gapMode)) {
+    return `gapMode must be one of: ${GAP_MODES.join(", ")}`;
+  }
+
+  if (showVolume !== undefined && typeof showVolume !== "boolean") {
+    return "showVolume must be a boolean";
+  }
+
+  if (
+    volumeRatio !== undefined &&
+    (typeof volumeRatio !== "number" || volumeRatio <= 0 || volumeRatio > CHART_STYLE.VOLUME.MAX_PANEL_RATIO)
+  ) {
+    return `volumeRatio must be a number in (0, ${CHART_STYLE.VOLUME.MAX_PANEL_RATIO}]`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate optional display and delivery flags (header, last-price line, storage)
+ */
+function validateDisplayOptions(body: ChartRequest): string | null {
+  const { showHeader, showLastPriceLine, store } = body;
+
+  if (showHeader !== undefined && typeof showHeader !== "boolean") {
+    return "showHeader must be a boolean";
+  }
+
+  if (showLastPriceLine !== undefined && typeof showLastPriceLine !== "boolean") {
+    return "showLastPriceLine must be a boolean";
+  }
+
+  if (store !== undefined && typeof store !== "boolean") {
+    return "store must be a boolean";
+  }
+
+  return null;
+}
+
+/**
+ * Validate theme preset and style overrides
+ */
+export function validateThemeOptions(body: Pick<ChartRequest, "theme" | "style">): string | null {
+  const { theme, style } = body;
+
+  if (theme !== undefined && !isThemeName(theme)) {
+    return `theme must be one of: ${THEME_NAMES.join(", ")}`;
+  }
+
+  if (style !== undefined) {
+    const styleError = validateStyleOverrides(style);
+    if (styleError) return styleError;
+  }
+
+  return null;
+}
+
+/**
+ * Validate label locale, time zone and price precision
+ */
+export function validateLabelOptions(body: Pick<ChartRequest, "locale" | "timeZone" | "priceDigits">): string | null {
+  const { locale, timeZone, priceDigits } = body;
+
+  if (locale !== undefined && !isLocale(locale)) {
+    return `locale must be a BCP 47 language tag or one of: ${LOCALE_PRESET_NAMES.join(", ")}`;
+  }
+
+  if (timeZone !== undefined && !isTimeZone(timeZone)) {
+    return "timeZone must be an IANA time zone such as UTC or Asia/Tokyo";
+  }
+
+  if (priceDigits !== undefined && !isPriceDigits(priceDigits)) {
+    return `priceDigits must be an integer from ${PRICE_FORMAT.MIN_SIGNIFICANT_DIGITS} to ${PRICE_FORMAT.MAX_SIGNIFICANT_DIGITS}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate optional chart overlays (price levels, annotations, indicators)
+ */
+function validateOverlayOptions(body: ChartRequest): string | null {
+  const { priceLevels, annotations, indicators } = body;
+
+  if (priceLevels !== undefined) {
+    const priceLevelsError = validatePriceLevels(priceLevels);
+    if (priceLevelsError) return priceLevelsError;
+  }
+
+  if (annotations !== undefined) {
+    const annotationsError = validateAnnotations(annotations);
+    if (annotationsError) return annotationsError;
+  }
+
+  if (indicators !== undefined) {
+    const indicatorsError = validateIndicators(indicators);
+    if (indicatorsError) return indicatorsError;
+  }
+
+  return null;
+}
+
+/**
+ * Validate trade fills and the window flag; without entryPrice the trades must include an opening fill
+ */
+function validateTradeOptions(body: ChartRequest): string | null {
+  const { trades, extendToTrades, entryPrice, isBullish } = body;
+
+  if (extendToTrades !== undefined && typeof extendToTrades !== "boolean") {
+    return "extendToTrades must be a boolean";
+  }
+
+  if (trades === undefined) return null;
+
+  const tradesError = validateTrades(trades);
+  if (tradesError) return tradesError;
+
+  if (entryPrice === undefined && calculateAverageEntry(trades.map(parseTradeTime), isBullish) === undefined) {
+    return `trades must include a ${isBullish ? "buy" : "sell"} fill when entryPrice is omitted`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the PnL badge options
+ */
+function validatePnLOptions(body: ChartRequest): string | null {
+  const { showPnl, leverage, positionSize } = body;
+
+  if (showPnl !== undefined && typeof showPnl !== "boolean") {
+    return "showPnl must be a boolean";
+  }
+
+  if (leverage !== undefined && (!isPositiveNumber(leverage) || leverage > CHART_LIMITS.MAX_LEVERAGE)) {
+    return `leverage must be a positive number up to ${CHART_LIMITS.MAX_LEVERAGE}`;
+  }
+
+  if (positionSize !== undefined && !isPositiveNumber(positionSize)) {
+    return "positionSize must be a positive number";
+  }
+
+  return null;
+}
+
+/**
+ * Validate optional entry/exit times and exit price
+ */
+function validatePositionTiming(body: ChartRequest): string | null {
+  const { entryTime, exitTime, exitPrice } = body;
+  const entry = parseTimestamp(entryTime);
+  const exit = parseTimestamp(exitTime);
+
+  if (entryTime !== undefined && entry === null) {
+    return "entryTime must be a Unix timestamp in milliseconds or an ISO 8601 string";
+  }
+
+  if (exitTime !== undefined && exit === null) {
+    return "exitTime must be a Unix timestamp in milliseconds or an ISO 8601 string";
+  }
+
+  if (entry !== null && exit !== null && exit < entry) {
+    return "exitTime must not be before entryTime";
+  }
+
+  if (exitPrice !== undefined && (!isPositiveNumber(exitPrice) || exit === null)) {
+    return "exitPrice must be a positive number and requires exitTime";
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the canvas size from explicit dimensions, the size preset or the defaults
+ */
+function resolveCanvasSize(body: ChartSizeRequest): CanvasSize {
+  const size = body.size ? SIZE_PRESETS[body.size] : undefined;
+
+  return {
+    width: Math.round(body.width || size?.width || CHART_DEFAULTS.WIDTH),
+    height: Math.round(body.height || size?.height || CHART_DEFAULTS.HEIGHT),
+  };
+}
+
+/**
+ * Create chart generation configuration from a validated request body, applying defaults
+ */
+export function createChartConfig(body: ChartRequest, format: OutputFormat): ChartGenerationWithR2Config {
+  const { width, height } = resolveCanvasSize(body);
+  const trades = body.trades?.map(parseTradeTime);
+
+  return {
+    tokenAddress: body.tokenAddress,
+    entryPrice: body.entryPrice,
+    isBullish: body.isBullish,
+    periodHours: body.periodHours || CHART_DEFAULTS.PERIOD_HOURS,
+    width,
+    height,
+    dpr: body.dpr || CHART_DEFAULTS.DPR,
+    format,
+    quality: body.quality,
+    animation: body.animation,
+    chartType: body.chartType,
+    yScaleMode: body.yScale,
+    gapMode: body.gapMode,
+    priceLevels: body.priceLevels,
+    annotations: body.annotations?.map(parseAnnotationTimes),
+    trades,
+    extendToTrades: body.extendToTrades,
+    indicators: body.indicators?.flatMap((spec) => parseIndicatorSpec(spec) ?? []),
+    entryTime: parseTimestamp(body.entryTime) ?? undefined,
+    exitTime: parseTimestamp(body.exitTime) ?? undefined,
+    exitPrice: body.exitPrice,
+    pnlBadge: body.showPnl ? { leverage: body.leverage, positionSize: body.positionSize } : undefined,
+    volumePanelRatio: body.showVolume ? (body.volumeRatio ?? CHART_STYLE.VOLUME.DEFAULT_PANEL_RATIO) : undefined,
+    showHeader: body.showHeader,
+    showLastPriceLine: body.showLastPriceLine,
+    theme: body.theme,
+    styleOverrides: body.style,
+    locale: body.locale,
+    timeZone: body.timeZone,
+    priceDigits: body.priceDigits,
+  };
+}
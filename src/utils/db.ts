@@ -3,11 +3,12 @@
  * Simplified with direct skia-canvas usage
  */
 
-import { and, count, desc, eq, gte, lte } from "drizzle-orm";
-import { CHART_DEFAULTS, DB_CONFIG } from "../constants";
+import { and, count, desc, eq, gte, lt, lte } from "drizzle-orm";
+import { CHART_DEFAULTS, CHART_LIMITS, CHART_STYLE, DB_CONFIG } from "../constants";
 import { getDB } from "../db";
 import { tokenOHLCV, tokens } from "../db/schema";
-import type { OHLCVDataParams, OHLCVDataResult, Point } from "../types";
+import type { OHLCPoint, OHLCVDataParams, OHLCVDataResult, Point, TokenDetails } from "../types";
+import { hasVolume } from "./chart-calculations";
 import { logger } from "./logger";
 
 /**
@@ -31,9 +32,7 @@ export async function getAvailableTokens(): Promise<string[]> {
 /**
  * Get token information by symbol
  */
-export async function getTokenBySymbol(
-  symbol: string,
-): Promise<{ address: string; name: string; symbol: string } | null> {
+export async function getTokenBySymbol(symbol: string): Promise<TokenDetails | null> {
   try {
     const db = getDB();
     const result = await db
@@ -41,6 +40,7 @@ export async function getTokenBySymbol(
         address: tokens.address,
         name: tokens.name,
         symbol: tokens.symbol,
+        iconUrl: tokens.iconUrl,
       })
       .from(tokens)
       .where(eq(tokens.symbol, symbol.toUpperCase()))
@@ -66,12 +66,41 @@ export async function getTokenBySymbol(
   }
 }
 
+/**
+ * Get token information by address
+ */
+export async function getTokenByAddress(address: string): Promise<TokenDetails | null> {
+  try {
+    const db = getDB();
+    const result = await db
+      .select({
+        address: tokens.address,
+        name: tokens.name,
+        symbol: tokens.symbol,
+        iconUrl: tokens.iconUrl,
+      })
+      .from(tokens)
+      .where(eq(tokens.address, address))
+      .limit(1);
+
+    const token = result[0];
+    if (!token) {
+      logger.debug(`Token with address ${address} not found`);
+      return null;
+    }
+
+    return token;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`Failed to get token by address ${address}: ${message}`);
+    return null;
+  }
+}
+
 /**
  * Get all tokens with their details that have OHLCV data
  */
-export async function getAvailableTokensWithDetails(): Promise<
-  Array<{ address: string; name: string; symbol: string }>
-> {
+export async function getAvailableTokensWithDetails(): Promise<TokenDetails[]> {
   try {
     const db = getDB();
 
@@ -83,7 +112,7 @@ export async function getAvailableTokensWithDetails(): Promise<
     }
 
     // Get token details for available addresses using a loop approach
-    const tokenDetails: Array<{ address: string; name: string; symbol: string }> = [];
+    const tokenDetails: TokenDetails[] = [];
 
     for (const address of availableAddresses) {
       if (!address) continue; // Skip undefined addresses
@@ -93,6 +122,7 @@ export async function getAvailableTokensWithDetails(): Promise<
           address: tokens.address,
           name: tokens.name,
           symbol: tokens.symbol,
+          iconUrl: tokens.iconUrl,
         })
         .from(tokens)
         .where(eq(tokens.address, address))
@@ -186,15 +216,51 @@ export async function validateTokenForCharting(
   }
 }
 
+/**
+ * Convert an OHLCV row to OHLC point format with proper number conversion
+ */
+function toOHLCPoint(row: typeof tokenOHLCV.$inferSelect): OHLCPoint {
+  return {
+    t: row.timestamp * 1000, // Convert to milliseconds
+    y: Number(row.close), // Ensure number type for price
+    o: Number(row.open),
+    h: Number(row.high),
+    l: Number(row.low),
+    v: Number(row.volume),
+  };
+}
+
+/**
+ * Get the window start (unix seconds) for the requested period
+ * The window is extended back to includeTime (ms) plus a little padding, capped at the maximum period
+ * and at the span one query can return at the data interval
+ */
+export function getWindowStart(
+  endTime: number,
+  periodHours: number,
+  intervalMinutes: number,
+  includeTime?: number,
+): number {
+  const startTime = endTime - periodHours * 60 * 60;
+  if (includeTime === undefined) return startTime;
+
+  const includeSeconds = Math.floor(includeTime / 1000);
+  if (includeSeconds >= startTime) return startTime;
+
+  const padding = (endTime - includeSeconds) * CHART_STYLE.POSITION_MARKERS.WINDOW_PADDING_RATIO;
+  const maxSpan = Math.min(CHART_LIMITS.MAX_PERIOD_HOURS * 60 * 60, DB_CONFIG.MAX_QUERY_LIMIT * intervalMinutes * 60);
+  return Math.max(Math.min(startTime, endTime - maxSpan), Math.floor(includeSeconds - padding));
+}
+
 /**
  * Fetch OHLCV data from database
  */
 export async function fetchOHLCVData(params: OHLCVDataParams): Promise<OHLCVDataResult> {
   try {
     const db = getDB();
-    const { tokenAddress, periodHours } = params;
+    const { tokenAddress, lookbackPoints = 0 } = params;
 
-    logger.info(`Fetching OHLCV data for token: ${tokenAddress}, period: ${periodHours}h`);
+    logger.info(`Fetching OHLCV data for token: ${tokenAddress}, period: ${params.periodHours}h`);
 
     // First, get the latest available timestamp for this token
     const latestDataResult = await db
@@ -214,11 +280,15 @@ export async function fetchOHLCVData(params: OHLCVDataParams): Promise<OHLCVData
       throw new Error(`No valid timestamp found for token ${tokenAddress}`);
     }
     const endTime = latestTimestamp;
-    const startTime = endTime - periodHours * 60 * 60;
+    const startTime = getWindowStart(endTime, params.periodHours, params.intervalMinutes, params.includeTime);
+    if (endTime - startTime > params.periodHours * 60 * 60) {
+      logger.info(`Extended window to include ${new Date(params.includeTime ?? 0).toISOString()}`);
+    }
 
     logger.info(`Using latest available data from: ${new Date(latestTimestamp * 1000).toISOString()}`);
 
-    // Query with time range based on latest available data
+    // Query with time range based on latest available data, newest first so a truncated result keeps the latest
+    // candles, then reversed to chronological order
     const results = await db
       .select()
       .from(tokenOHLCV)
@@ -229,21 +299,42 @@ export async function fetchOHLCVData(params: OHLCVDataParams): Promise<OHLCVData
           lte(tokenOHLCV.timestamp, endTime),
         ),
       )
-      .orderBy(tokenOHLCV.timestamp)
+      .orderBy(desc(tokenOHLCV.timestamp))
       .limit(DB_CONFIG.MAX_QUERY_LIMIT);
+    const points = results.map(toOHLCPoint).reverse();
+
+    // A full result may have been cut by the row limit, so the window starts at the oldest fetched candle
+    const truncated = results.length >= DB_CONFIG.MAX_QUERY_LIMIT;
+    const windowStart = truncated ? (results[results.length - 1]?.timestamp ?? startTime) : startTime;
+    const periodHours = (endTime - windowStart) / (60 * 60);
+    if (truncated) {
+      logger.warn(`Window limited to ${periodHours.toFixed(1)}h by the ${DB_CONFIG.MAX_QUERY_LIMIT}-row query limit`);
+    }
 
-    // Convert to Point format with proper number conversion
-    const points: Point[] = results.map((row) => ({
-      t: row.timestamp * 1000, // Convert to milliseconds
-      y: Number(row.close), // Ensure number type for price
-    }));
+    // Points preceding the fetched window, fetched newest first and reversed to chronological order
+    const firstTimestamp = results[results.length - 1]?.timestamp ?? startTime;
+    const lookbackResults =
+      lookbackPoints > 0
+        ? await db
+            .select()
+            .from(tokenOHLCV)
+            .where(and(eq(tokenOHLCV.token, tokenAddress), lt(tokenOHLCV.timestamp, firstTimestamp)))
+            .orderBy(desc(tokenOHLCV.timestamp))
+            .limit(Math.min(lookbackPoints, DB_CONFIG.MAX_QUERY_LIMIT))
+        : [];
 
-    logger.info(`Successfully fetched ${points.length} OHLCV data points for ${tokenAddress}`);
+    const lookback = lookbackResults.map(toOHLCPoint).reverse();
+
+    logger.info(
+      `Successfully fetched ${points.length} OHLCV data points (+${lookback.length} lookback) for ${tokenAddress}`,
+    );
 
     return {
       points,
+      lookback,
       tokenAddress,
       periodHours,
+      intervalMinutes: params.intervalMinutes,
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -255,7 +346,7 @@ export async function fetchOHLCVData(params: OHLCVDataParams): Promise<OHLCVData
 /**
  * Downsample data using min-max algorithm - refactored to reduce complexity
  */
-export function downsampleMinMax(points: readonly Point[], targetWidth: number): readonly Point[] {
+export function downsampleMinMax<T extends Point>(points: readonly T[], targetWidth: number): readonly T[] {
   if (points.length <= targetWidth * 2) {
     return points;
   }
@@ -267,15 +358,15 @@ export function downsampleMinMax(points: readonly Point[], targetWidth: number):
 /**
  * Process bins for downsampling - extracted to reduce complexity
  */
-function processBins(points: readonly Point[], binSize: number): readonly Point[] {
-  const downsampled: Point[] = [];
+function processBins<T extends Point>(points: readonly T[], binSize: number): readonly T[] {
+  const downsampled: T[] = [];
 
   for (let i = 0; i < points.length; i += binSize) {
     const bin = points.slice(i, Math.min(i + binSize, points.length));
     const minMaxPair = extractMinMaxFromBin(bin);
 
     if (minMaxPair) {
-      downsampled.push(...minMaxPair);
+      downsampled.push(...distributeBinVolume(minMaxPair, bin));
     }
   }
 
@@ -283,10 +374,21 @@ function processBins(points: readonly Point[], binSize: number): readonly Point[
   return downsampled;
 }
 
+/**
+ * Spread the bin's total volume over the points kept from it
+ * Volume is summed per bin rather than sampled, so the total is preserved after downsampling
+ */
+function distributeBinVolume<T extends Point>(kept: readonly T[], bin: readonly T[]): readonly T[] {
+  if (!bin.every(hasVolume)) return kept;
+
+  const totalVolume = bin.reduce((sum, point) => sum + (hasVolume(point) ? point.v : 0), 0);
+  return kept.map((point) => ({ ...point, v: totalVolume / kept.length }));
+}
+
 /**
  * Extract min and max points from a bin - extracted to reduce complexity
  */
-function extractMinMaxFromBin(bin: readonly Point[]): readonly Point[] | null {
+function extractMinMaxFromBin<T extends Point>(bin: readonly T[]): readonly T[] | null {
   if (bin.length === 0) return null;
 
   let minPoint = bin[0];
@@ -303,4 +405,50 @@ function extractMinMaxFromBin(bin: readonly Point[]): readonly Point[] | null {
   return minPoint.t < maxPoint.t ? [minPoint, maxPoint] : [maxPoint, minPoint];
 }
 
+/**
+ * Downsample candles by merging consecutive candles per bin
+ * Each merged candle keeps the first open, the last close, the bin's high/low extremes and the summed volume
+ */
+export function downsampleCandles(points: readonly OHLCPoint[], targetCount: number): readonly OHLCPoint[] {
+  if (points.length <= targetCount) {
+    return points;
+  }
+
+  const binSize = Math.ceil(points.length / targetCount);
+  const merged: OHLCPoint[] = [];
+
+  for (let i = 0; i < points.length; i += binSize) {
+    const candle = mergeCandleBin(points.slice(i, Math.min(i + binSize, points.length)));
+
+    if (candle) {
+      merged.push(candle);
+    }
+  }
+
+  logger.debug(`Merged ${points.length} candles into ${merged.length} candles`);
+  return merged;
+}
+
+/**
+ * Merge a bin of consecutive candles into a single candle
+ */
+function mergeCandleBin(bin: readonly OHLCPoint[]): OHLCPoint | null {
+  const first = bin[0];
+  const last = bin[bin.length - 1];
+
+  if (!first || !last) return null;
+
+  let high = first.h;
+  let low = first.l;
+  let volume = 0;
+
+  for (const candle of bin) {
+    if (candle.h > high) high = candle.h;
+    if (candle.l < low) low = candle.l;
+    volume += candle.v;
+  }
+
+  return { t: first.t, o: first.o, h: high, l: low, y: last.y, v: volume };
+}
+
 // generateChart function has been moved to src/chart-generator.ts for better responsibility separation
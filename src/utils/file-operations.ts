@@ -6,8 +6,9 @@
 import { mkdir, writeFile } from "node:fs/promises";
 import { dirname } from "node:path";
 // R2Bucket type is available globally from worker types
-import sharp from "sharp";
-import { FILE_CONFIG } from "../constants";
+import sharp, { type Sharp } from "sharp";
+import { FILE_CONFIG, IMAGE_ENCODERS } from "../constants";
+import type { RasterFormat } from "../types";
 import { logger } from "./logger";
 
 /**
@@ -26,30 +27,52 @@ export async function ensureOutputDirectory(outputPath: string): Promise<void> {
 }
 
 /**
- * Optimize image using Sharp - leveraging its built-in optimization
+ * Apply the Sharp encoder for a raster format; quality only applies to the lossy formats
  */
-export async function optimizeImageWithSharp(imageBuffer: Buffer): Promise<Buffer> {
-  try {
-    // Use Sharp's built-in PNG optimization
-    const optimizedBuffer = await sharp(imageBuffer)
-      .png({
-        quality: FILE_CONFIG.IMAGE_QUALITY,
-        compressionLevel: FILE_CONFIG.PNG_COMPRESSION_LEVEL,
+function applyEncoder(image: Sharp, format: RasterFormat, quality: number | undefined): Sharp {
+  switch (format) {
+    case "webp":
+      return image.webp({ quality: quality ?? IMAGE_ENCODERS.webp.QUALITY, effort: IMAGE_ENCODERS.webp.EFFORT });
+    case "jpeg":
+      return image.jpeg({ quality: quality ?? IMAGE_ENCODERS.jpeg.QUALITY, mozjpeg: true });
+    case "avif":
+      return image.avif({ quality: quality ?? IMAGE_ENCODERS.avif.QUALITY, effort: IMAGE_ENCODERS.avif.EFFORT });
+    case "gif":
+      return image.gif({ effort: IMAGE_ENCODERS.gif.EFFORT });
+    default:
+      return image.png({
+        compressionLevel: IMAGE_ENCODERS.png.COMPRESSION_LEVEL,
         progressive: true,
-        // Enable optimal compression
-        effort: 10, // Maximum compression effort
-      })
-      .toBuffer();
+        effort: IMAGE_ENCODERS.png.EFFORT,
+      });
+  }
+}
+
+/**
+ * Optimize a rendered PNG using Sharp, re-encoding it to the requested raster format
+ * A failed PNG optimization falls back to the original; other formats cannot, so their errors are thrown
+ */
+export async function optimizeImageWithSharp(
+  imageBuffer: Buffer,
+  format: RasterFormat = "png",
+  quality?: number,
+): Promise<Buffer> {
+  try {
+    const optimizedBuffer = await applyEncoder(sharp(imageBuffer), format, quality).toBuffer();
 
     const originalSize = imageBuffer.length;
     const optimizedSize = optimizedBuffer.length;
     const savings = (((originalSize - optimizedSize) / originalSize) * 100).toFixed(1);
 
-    logger.debug(`Image optimized: ${originalSize} → ${optimizedSize} bytes (${savings}% savings)`);
+    logger.debug(`Image optimized to ${format}: ${originalSize} → ${optimizedSize} bytes (${savings}% savings)`);
 
     return optimizedBuffer;
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
+    if (format !== "png") {
+      throw new Error(`Image encoding to ${format} failed: ${message}`);
+    }
+
     logger.warn(`Image optimization failed, using original: ${message}`);
     return imageBuffer;
   }
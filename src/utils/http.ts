@@ -0,0 +1,152 @@
+/**
+ * HTTP utilities for the Worker API
+ * Response builders, ETag generation and Accept header content negotiation
+ */
+
+interface AcceptEntry {
+  readonly type: string;
+  readonly subtype: string;
+  readonly q: number;
+}
+
+/**
+ * Create a JSON response
+ */
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/**
+ * Create a JSON error response
+ */
+export function errorResponse(message: string, status: number): Response {
+  return jsonResponse({ error: message }, status);
+}
+
+/**
+ * Compute a strong ETag from the SHA-256 digest of the response body
+ */
+export async function computeETag(buffer: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `"${hex.slice(0, 32)}"`;
+}
+
+/**
+ * Create a binary image response with Content-Type, Content-Length and ETag headers
+ * Answers 304 Not Modified when the request's If-None-Match matches the ETag
+ */
+export async function imageResponse(
+  request: Request,
+  buffer: Uint8Array,
+  contentType: string,
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  const etag = await computeETag(buffer);
+  const ifNoneMatch = request.headers.get("If-None-Match");
+
+  if (ifNoneMatch?.split(",").some((tag) => tag.trim() === etag)) {
+    return new Response(null, { status: 304, headers: { ETag: etag, ...headers } });
+  }
+
+  return new Response(buffer, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      "Content-Length": String(buffer.byteLength),
+      ETag: etag,
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Parse an Accept header into media ranges with quality values
+ */
+function parseAcceptHeader(header: string): AcceptEntry[] {
+  return header
+    .split(",")
+    .map((part) => {
+      const [range = "", ...params] = part.trim().split(";");
+      const [type = "*", subtype = "*"] = range.trim().toLowerCase().split("/");
+      const qParam = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+      const q = qParam ? Number.parseFloat(qParam.slice(2)) : 1;
+      return { type, subtype, q: Number.isFinite(q) ? q : 0 };
+    })
+    .filter((entry) => entry.type.length > 0);
+}
+
+/**
+ * Get the quality value the client assigns to a media type
+ * The most specific matching range wins (type/subtype > type/* > *\/*)
+ */
+function getAcceptQuality(entries: readonly AcceptEntry[], mediaType: string): number {
+  const [type, subtype] = mediaType.toLowerCase().split("/");
+  let bestSpecificity = -1;
+  let quality = 0;
+
+  for (const entry of entries) {
+    const specificity =
+      entry.type === type && entry.subtype === subtype
+        ? 2
+        : entry.type === type && entry.subtype === "*"
+          ? 1
+          : entry.type === "*" && entry.subtype === "*"
+            ? 0
+            : -1;
+
+    if (specificity > bestSpecificity) {
+      bestSpecificity = specificity;
+      quality = entry.q;
+    }
+  }
+
+  return quality;
+}
+
+/**
+ * Pick the media type the client prefers among the offered ones
+ * Returns the first offer when the Accept header is missing; ties keep offer order
+ */
+export function negotiateContentType(request: Request, offers: readonly string[]): string | null {
+  const header = request.headers.get("Accept");
+  if (!header) return offers[0] ?? null;
+
+  const entries = parseAcceptHeader(header);
+  let best: string | null = null;
+  let bestQuality = 0;
+
+  for (const offer of offers) {
+    const quality = getAcceptQuality(entries, offer);
+    if (quality > bestQuality) {
+      best = offer;
+      bestQuality = quality;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pick the preferred media type among the offers the client names exactly with q > 0
+ * Wildcard ranges and a missing Accept header match nothing, so the caller's safe default applies
+ */
+export function negotiateExplicitContentType(request: Request, offers: readonly string[]): string | null {
+  const entries = parseAcceptHeader(request.headers.get("Accept") ?? "");
+  let best: string | null = null;
+  let bestQuality = 0;
+
+  for (const offer of offers) {
+    const [type, subtype] = offer.toLowerCase().split("/");
+    const entry = entries.find((candidate) => candidate.type === type && candidate.subtype === subtype);
+    if (entry && entry.q > bestQuality) {
+      best = offer;
+      bestQuality = entry.q;
+    }
+  }
+
+  return best;
+}
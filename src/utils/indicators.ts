@@ -0,0 +1,215 @@
+/**
+ * Technical indicator calculations
+ * SMA, EMA, Bollinger Bands and VWAP computed on the full-resolution OHLCV series before downsampling
+ */
+
+import { CHART_STYLE, INDICATOR_TYPES } from "../constants";
+import type { IndicatorOverlay, IndicatorSpec, IndicatorType, OHLCPoint, Point } from "../types";
+
+type IndicatorValues = readonly (number | null)[];
+
+/**
+ * Check whether a value is a supported indicator type
+ */
+function isIndicatorType(value: string): value is IndicatorType {
+  return (INDICATOR_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse an indicator spec such as `sma:50`, `ema:20`, `bb:20:2` or `vwap`
+ * Period defaults to 20 and the Bollinger width to 2 standard deviations; returns null when invalid
+ */
+export function parseIndicatorSpec(raw: string): IndicatorSpec | null {
+  const config = CHART_STYLE.INDICATORS;
+  const [type = "", periodRaw, stdDevRaw, ...rest] = raw.trim().toLowerCase().split(":");
+
+  if (!isIndicatorType(type) || rest.length > 0) return null;
+  if (type === "vwap") {
+    return periodRaw === undefined ? { type, period: 1 } : null;
+  }
+
+  const period = periodRaw === undefined ? config.DEFAULT_PERIOD : Number(periodRaw);
+  if (!Number.isInteger(period) || period < 1 || period > config.MAX_PERIOD) return null;
+
+  if (type !== "bb") {
+    return stdDevRaw === undefined ? { type, period } : null;
+  }
+
+  const stdDev = stdDevRaw === undefined ? config.DEFAULT_STD_DEV : Number(stdDevRaw);
+  if (!Number.isFinite(stdDev) || stdDev <= 0 || stdDev > config.MAX_STD_DEV) return null;
+
+  return { type, period, stdDev };
+}
+
+/**
+ * Number of points needed before the visible window so every indicator is defined from its first point
+ */
+export function getIndicatorLookback(specs: readonly IndicatorSpec[] = []): number {
+  return specs.reduce((max, spec) => {
+    switch (spec.type) {
+      case "vwap":
+        return max;
+      case "ema":
+        return Math.max(max, spec.period * CHART_STYLE.INDICATORS.EMA_WARMUP_FACTOR);
+      default:
+        return Math.max(max, spec.period - 1);
+    }
+  }, 0);
+}
+
+/**
+ * Simple moving average of closing prices
+ */
+function calculateSMA(points: readonly Point[], period: number): IndicatorValues {
+  const values: (number | null)[] = [];
+  let sum = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    sum += points[i]?.y ?? 0;
+    if (i >= period) sum -= points[i - period]?.y ?? 0;
+    values.push(i >= period - 1 ? sum / period : null);
+  }
+
+  return values;
+}
+
+/**
+ * Exponential moving average of closing prices, seeded with the SMA of the first period
+ */
+function calculateEMA(points: readonly Point[], period: number): IndicatorValues {
+  const alpha = 2 / (period + 1);
+  const sma = calculateSMA(points, period);
+  const values: (number | null)[] = [];
+  let ema: number | null = null;
+
+  for (let i = 0; i < points.length; i++) {
+    const close = points[i]?.y ?? 0;
+    ema = ema === null ? (sma[i] ?? null) : ema + alpha * (close - ema);
+    values.push(ema);
+  }
+
+  return values;
+}
+
+/**
+ * Bollinger Bands: SMA middle band with upper/lower bands at ±stdDev population standard deviations
+ */
+function calculateBollingerBands(
+  points: readonly Point[],
+  period: number,
+  stdDev: number,
+): { upper: IndicatorValues; middle: IndicatorValues; lower: IndicatorValues } {
+  const middle = calculateSMA(points, period);
+  const upper: (number | null)[] = [];
+  const lower: (number | null)[] = [];
+
+  for (let i = 0; i < points.length; i++) {
+    const mean = middle[i];
+    if (mean === null || mean === undefined) {
+      upper.push(null);
+      lower.push(null);
+      continue;
+    }
+
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += ((points[j]?.y ?? mean) - mean) ** 2;
+    }
+    const deviation = Math.sqrt(variance / period) * stdDev;
+
+    upper.push(mean + deviation);
+    lower.push(mean - deviation);
+  }
+
+  return { upper, middle, lower };
+}
+
+/**
+ * Volume-weighted average price of the typical price (h + l + c) / 3, anchored at anchorIndex
+ */
+function calculateVWAP(points: readonly OHLCPoint[], anchorIndex: number): IndicatorValues {
+  const values: (number | null)[] = [];
+  let priceVolume = 0;
+  let volume = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i];
+    if (!point || i < anchorIndex) {
+      values.push(null);
+      continue;
+    }
+
+    priceVolume += ((point.h + point.l + point.y) / 3) * point.v;
+    volume += point.v;
+    values.push(volume > 0 ? priceVolume / volume : null);
+  }
+
+  return values;
+}
+
+/**
+ * Convert indicator values to points, keeping only defined values inside the visible window
+ */
+function toIndicatorLine(points: readonly Point[], values: IndicatorValues, visibleFrom: number): Point[] {
+  const line: Point[] = [];
+
+  for (let i = visibleFrom; i < points.length; i++) {
+    const point = points[i];
+    const value = values[i];
+    if (point && value !== null && value !== undefined) {
+      line.push({ t: point.t, y: value });
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Compute a single indicator overlay
+ */
+function computeIndicator(spec: IndicatorSpec, points: readonly OHLCPoint[], visibleFrom: number): IndicatorOverlay {
+  switch (spec.type) {
+    case "sma":
+      return {
+        label: `SMA ${spec.period}`,
+        lines: [toIndicatorLine(points, calculateSMA(points, spec.period), visibleFrom)],
+        band: false,
+      };
+    case "ema":
+      return {
+        label: `EMA ${spec.period}`,
+        lines: [toIndicatorLine(points, calculateEMA(points, spec.period), visibleFrom)],
+        band: false,
+      };
+    case "bb": {
+      const stdDev = spec.stdDev ?? CHART_STYLE.INDICATORS.DEFAULT_STD_DEV;
+      const bands = calculateBollingerBands(points, spec.period, stdDev);
+      return {
+        label: `BB ${spec.period} ${stdDev}`,
+        lines: [bands.upper, bands.middle, bands.lower].map((values) => toIndicatorLine(points, values, visibleFrom)),
+        band: true,
+      };
+    }
+    case "vwap":
+      return {
+        label: "VWAP",
+        lines: [toIndicatorLine(points, calculateVWAP(points, visibleFrom), visibleFrom)],
+        band: false,
+      };
+  }
+}
+
+/**
+ * Compute indicator overlays for the visible window
+ * `lookback` holds the points preceding the window (oldest first) used to warm up moving averages
+ */
+export function computeIndicators(
+  specs: readonly IndicatorSpec[],
+  points: readonly OHLCPoint[],
+  lookback: readonly OHLCPoint[] = [],
+): IndicatorOverlay[] {
+  if (specs.length === 0) return [];
+
+  const series = [...lookback, ...points];
+  return specs.map((spec) => computeIndicator(spec, series, lookback.length));
+}
@@ -0,0 +1,73 @@
+/**
+ * Locale and time zone handling for chart labels
+ * Every label is formatted with an explicit locale and time zone so a render does not depend on the host
+ */
+
+import { DEFAULT_LOCALE, DEFAULT_TIME_ZONE, LOCALE_PRESET_NAMES, LOCALE_PRESETS, PRICE_FORMAT } from "../constants";
+import type { LabelFormat, LocalePresetName } from "../types";
+
+/**
+ * Check whether a value is a locale preset name
+ */
+function isLocalePresetName(value: string): value is LocalePresetName {
+  return (LOCALE_PRESET_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve label settings for a BCP 47 tag or preset name ("en", "ja"), an IANA time zone and price precision
+ * Tags whose language has a preset (e.g. "ja-JP") use that preset's date and time formats
+ */
+export function resolveLabelFormat(
+  locale = DEFAULT_LOCALE,
+  timeZone = DEFAULT_TIME_ZONE,
+  significantDigits: number = PRICE_FORMAT.SIGNIFICANT_DIGITS,
+): LabelFormat {
+  if (isLocalePresetName(locale)) {
+    return { ...LOCALE_PRESETS[locale], timeZone, significantDigits };
+  }
+
+  const language = locale.split("-")[0]?.toLowerCase() ?? "";
+  const preset = isLocalePresetName(language) ? LOCALE_PRESETS[language] : LOCALE_PRESETS.en;
+  return { ...preset, locale, timeZone, significantDigits };
+}
+
+/**
+ * Offset of the time zone from UTC in milliseconds at the given instant (e.g. +9h for Asia/Tokyo)
+ */
+export function getTimeZoneOffset(timeZone: string, timestamp: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(timestamp);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  const localAsUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+  return localAsUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Format the date part of a timestamp, e.g. "Jul 2" or "7/2"
+ */
+export function formatDateLabel(timestamp: number, format: LabelFormat): string {
+  return new Date(timestamp).toLocaleDateString(format.locale, { ...format.dateFormat, timeZone: format.timeZone });
+}
+
+/**
+ * Format the time part of a timestamp, e.g. "01:05 PM" or "13:05"
+ */
+export function formatTimeLabel(timestamp: number, format: LabelFormat): string {
+  return new Date(timestamp).toLocaleTimeString(format.locale, { ...format.timeFormat, timeZone: format.timeZone });
+}
@@ -0,0 +1,107 @@
+/**
+ * Shared price formatting for axes, price tags, the header and chart metrics
+ * Handles micro-cap prices with DEX-style subscript zeros (0.0₆1234) and large values with K/M/B/T suffixes
+ */
+
+import { DEFAULT_LOCALE, PRICE_FORMAT } from "../constants";
+import type { PriceFormatOptions } from "../types";
+
+const SUBSCRIPT_DIGITS = "₀₁₂₃₄₅₆₇₈₉";
+
+/**
+ * Power of ten of the leading digit, e.g. 2 for 142.5 and -7 for 0.0000001234
+ * The epsilon keeps exact powers of ten from landing one below because of float error
+ */
+function getMagnitude(value: number): number {
+  return Math.floor(Math.log10(Math.abs(value)) + 1e-9);
+}
+
+/**
+ * Write a non-negative integer with Unicode subscript digits
+ */
+function toSubscript(value: number): string {
+  return Array.from(String(value), (digit) => SUBSCRIPT_DIGITS[Number(digit)] ?? digit).join("");
+}
+
+/**
+ * Decimal separator of the locale, e.g. "." for en-US and "," for de-DE
+ */
+function getDecimalSeparator(locale: string): string {
+  return new Intl.NumberFormat(locale).formatToParts(0.5).find((part) => part.type === "decimal")?.value ?? ".";
+}
+
+/**
+ * Round a value to the given number of significant digits
+ */
+export function roundToSignificant(value: number, digits: number = PRICE_FORMAT.SIGNIFICANT_DIGITS): number {
+  if (value === 0 || !Number.isFinite(value)) return value;
+  return Number(value.toPrecision(digits));
+}
+
+/**
+ * Significant digits needed to show a tick value at the precision of its tick step
+ */
+export function getStepSignificantDigits(value: number, step: number): number {
+  if (value === 0 || !(step > 0)) return 1;
+
+  const digits = getMagnitude(value) - getMagnitude(step) + 1;
+  return Math.min(PRICE_FORMAT.MAX_SIGNIFICANT_DIGITS, Math.max(1, digits));
+}
+
+/**
+ * Format a value with the given significant digits; the integer part is never rounded away
+ */
+function formatSignificant(value: number, digits: number, locale: string, padZeros: boolean): string {
+  const maxDigits = value >= 1 ? Math.max(digits, getMagnitude(value) + 1) : digits;
+  return value.toLocaleString(locale, {
+    minimumSignificantDigits: padZeros ? maxDigits : 1,
+    maximumSignificantDigits: maxDigits,
+  });
+}
+
+/**
+ * Format a tiny value as 0.0ₙdddd, where n is the number of zeros after the decimal separator
+ */
+function formatSubscript(value: number, zeros: number, digits: number, locale: string, padZeros: boolean): string {
+  const significand = String(Math.round(value * 10 ** (zeros + digits)));
+  const text = padZeros ? significand : significand.replace(/(\d)0+$/, "$1");
+  return `0${getDecimalSeparator(locale)}0${toSubscript(zeros)}${text}`;
+}
+
+/**
+ * Format a non-negative value, choosing compact, subscript or plain notation
+ */
+function formatMagnitude(value: number, options: Required<Omit<PriceFormatOptions, "prefix">>): string {
+  const { significantDigits: digits, locale, compact, subscriptZeros, padZeros } = options;
+  const rounded = roundToSignificant(value, digits);
+
+  if (compact && rounded >= PRICE_FORMAT.COMPACT_THRESHOLD) {
+    const [unit, suffix] = PRICE_FORMAT.COMPACT_SUFFIXES.find(([unit]) => rounded >= unit) ?? [1, ""];
+    return `${formatSignificant(rounded / unit, digits, locale, padZeros)}${suffix}`;
+  }
+
+  // Zeros between the decimal separator and the first significant digit, counted after rounding
+  const zeros = rounded > 0 && rounded < 1 ? -getMagnitude(rounded) - 1 : 0;
+  if (subscriptZeros && zeros >= PRICE_FORMAT.SUBSCRIPT_MIN_ZEROS) {
+    return formatSubscript(rounded, zeros, digits, locale, padZeros);
+  }
+
+  return formatSignificant(value, digits, locale, padZeros);
+}
+
+/**
+ * Format a price for display, e.g. "$142.5", "$1.2K", "$3.4M" or "$0.0₆1234"
+ */
+export function formatPrice(value: number, options: PriceFormatOptions = {}): string {
+  const prefix = options.prefix ?? "$";
+  if (!Number.isFinite(value)) return `${prefix}${value}`;
+
+  const text = formatMagnitude(Math.abs(value), {
+    significantDigits: options.significantDigits ?? PRICE_FORMAT.SIGNIFICANT_DIGITS,
+    locale: options.locale ?? DEFAULT_LOCALE,
+    compact: options.compact ?? true,
+    subscriptZeros: options.subscriptZeros ?? true,
+    padZeros: options.padZeros ?? false,
+  });
+  return `${value < 0 ? "-" : ""}${prefix}${text}`;
+}
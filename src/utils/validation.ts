@@ -0,0 +1,538 @@
+/**
+ * Request validation utilities
+ * Type guards and validators shared by the JSON API and query-string parsing
+ */
+
+import {
+  ANIMATION,
+  ANIMATION_FORMATS,
+  ANNOTATION_TYPES,
+  CHART_LIMITS,
+  CHART_STYLE,
+  CHART_TYPES,
+  GAP_MODES,
+  IMAGE_ENCODERS,
+  LOCALE_PRESET_NAMES,
+  OUTPUT_FORMATS,
+  PRICE_FORMAT,
+  PRICE_LEVEL_TYPES,
+  SIZE_PRESET_NAMES,
+  THEME_NAMES,
+  TRADE_SIDES,
+  Y_SCALE_MODES,
+} from "../constants";
+import type {
+  AnimationFormat,
+  Annotation,
+  AnnotationType,
+  ChartStyle,
+  ChartType,
+  GapMode,
+  OutputFormat,
+  OutputFormatOption,
+  PriceLevel,
+  PriceLevelType,
+  SizePresetName,
+  ThemeName,
+  Trade,
+  TradeSide,
+  YScaleMode,
+} from "../types";
+import { parseIndicatorSpec } from "./indicators";
+
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Hex, rgb()/rgba() or hsl()/hsla() colors for fills that are never alpha-blended by the renderer
+const CSS_COLOR_PATTERN = /^(#[0-9a-fA-F]{3,8}|rgba?\([\d\s.,%]+\)|hsla?\([\d\s.,%deg]+\))$/;
+
+// Style fields used with hexToRgba, which only understands #rrggbb
+const HEX_STYLE_FIELDS = [
+  "lineColor",
+  "entryLineColor",
+  "candleUpColor",
+  "candleDownColor",
+  "profitColor",
+  "lossColor",
+] as const satisfies readonly (keyof ChartStyle)[];
+
+const CSS_STYLE_FIELDS = [
+  "gridColor",
+  "textColor",
+  "mutedTextColor",
+  "axisLabelColor",
+  "tagTextColor",
+  "badgeBackgroundColor",
+] as const satisfies readonly (keyof ChartStyle)[];
+
+/**
+ * Check whether a value is a supported chart type
+ */
+export function isChartType(value: unknown): value is ChartType {
+  return typeof value === "string" && (CHART_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a supported price axis scale
+ */
+export function isYScaleMode(value: unknown): value is YScaleMode {
+  return typeof value === "string" && (Y_SCALE_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a supported missing-candle handling mode
+ */
+export function isGapMode(value: unknown): value is GapMode {
+  return typeof value === "string" && (GAP_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a supported price level type
+ */
+export function isPriceLevelType(value: unknown): value is PriceLevelType {
+  return typeof value === "string" && (PRICE_LEVEL_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a supported annotation type
+ */
+export function isAnnotationType(value: unknown): value is AnnotationType {
+  return typeof value === "string" && (ANNOTATION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a supported trade side
+ */
+export function isTradeSide(value: unknown): value is TradeSide {
+  return typeof value === "string" && (TRADE_SIDES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a `#rrggbb` hex color
+ */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR_PATTERN.test(value);
+}
+
+/**
+ * Check whether a value is a CSS color string (hex, rgb(a) or hsl(a))
+ */
+export function isCssColor(value: unknown): value is string {
+  return typeof value === "string" && CSS_COLOR_PATTERN.test(value);
+}
+
+/**
+ * Check whether a value is a supported theme name
+ */
+export function isThemeName(value: unknown): value is ThemeName {
+  return typeof value === "string" && (THEME_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a supported output format
+ */
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return typeof value === "string" && (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a supported output format or "auto"
+ */
+export function isOutputFormatOption(value: unknown): value is OutputFormatOption {
+  return value === "auto" || isOutputFormat(value);
+}
+
+/**
+ * Check whether a value is a supported image quality (integer 1-100)
+ */
+export function isImageQuality(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= IMAGE_ENCODERS.MIN_QUALITY &&
+    (value as number) <= IMAGE_ENCODERS.MAX_QUALITY
+  );
+}
+
+/**
+ * Check whether a value is a format that can carry an animation
+ */
+export function isAnimationFormat(value: unknown): value is AnimationFormat {
+  return typeof value === "string" && (ANIMATION_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a supported animation frame count
+ */
+export function isAnimationFrameCount(value: unknown): value is number {
+  return (
+    Number.isInteger(value) && (value as number) >= ANIMATION.MIN_FRAMES && (value as number) <= ANIMATION.MAX_FRAMES
+  );
+}
+
+/**
+ * Check whether a value is a supported animation duration in milliseconds
+ */
+export function isAnimationDuration(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= ANIMATION.MIN_DURATION_MS &&
+    (value as number) <= ANIMATION.MAX_DURATION_MS
+  );
+}
+
+/**
+ * Check whether a value is a supported animation loop count (0 repeats forever)
+ */
+export function isAnimationLoopCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= ANIMATION.MAX_LOOP;
+}
+
+/**
+ * Check whether the minimum number of animation frames of this size fits the pixel budget
+ * Larger frames only reduce the frame count, down to this minimum
+ */
+export function fitsAnimationBudget(width: number, height: number, dpr: number): boolean {
+  const framePixels = Math.round(width * dpr) * Math.round(height * dpr);
+  return framePixels * ANIMATION.MIN_FRAMES <= ANIMATION.MAX_TOTAL_PIXELS;
+}
+
+/**
+ * Check whether a value is a canvas size preset name
+ */
+export function isSizePresetName(value: unknown): value is SizePresetName {
+  return typeof value === "string" && (SIZE_PRESET_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is a locale preset name or a BCP 47 tag the runtime can format
+ */
+export function isLocale(value: unknown): value is string {
+  if (typeof value !== "string" || value === "") return false;
+  if ((LOCALE_PRESET_NAMES as readonly string[]).includes(value)) return true;
+
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(value).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a value is an IANA time zone name such as "UTC" or "Asia/Tokyo"
+ */
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || value === "") return false;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a value is a supported price label precision (integer significant digits)
+ */
+export function isPriceDigits(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= PRICE_FORMAT.MIN_SIGNIFICANT_DIGITS &&
+    (value as number) <= PRICE_FORMAT.MAX_SIGNIFICANT_DIGITS
+  );
+}
+
+/**
+ * Check whether a value is a finite positive number
+ */
+export function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Parse a timestamp given as Unix milliseconds or an ISO 8601 string; returns null when invalid
+ */
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Validate a single price level, returning an error message or null
+ */
+function validatePriceLevel(level: unknown, index: number): string | null {
+  if (typeof level !== "object" || level === null) {
+    return `priceLevels[${index}] must be an object`;
+  }
+
+  const { type, price, label, color } = level as Partial<Record<keyof PriceLevel, unknown>>;
+
+  if (!isPriceLevelType(type)) {
+    return `priceLevels[${index}].type must be one of: ${PRICE_LEVEL_TYPES.join(", ")}`;
+  }
+  if (!isPositiveNumber(price)) {
+    return `priceLevels[${index}].price must be a positive number`;
+  }
+  if (label !== undefined && (typeof label !== "string" || label.length > CHART_STYLE.PRICE_LEVELS.MAX_LABEL_LENGTH)) {
+    return `priceLevels[${index}].label must be a string of at most ${CHART_STYLE.PRICE_LEVELS.MAX_LABEL_LENGTH} characters`;
+  }
+  if (color !== undefined && !isHexColor(color)) {
+    return `priceLevels[${index}].color must be a #rrggbb hex color`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a list of price levels, returning the first error message or null
+ */
+export function validatePriceLevels(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return "priceLevels must be an array";
+  }
+
+  for (let i = 0; i < value.length; i++) {
+    const error = validatePriceLevel(value[i], i);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a single trade, returning an error message or null
+ */
+function validateTrade(trade: unknown, index: number): string | null {
+  if (typeof trade !== "object" || trade === null) {
+    return `trades[${index}] must be an object`;
+  }
+
+  const { time, price, side, size } = trade as Partial<Record<keyof Trade, unknown>>;
+
+  if (parseTimestamp(time) === null) {
+    return `trades[${index}].time must be a Unix timestamp in milliseconds or an ISO 8601 string`;
+  }
+  if (!isPositiveNumber(price)) {
+    return `trades[${index}].price must be a positive number`;
+  }
+  if (!isTradeSide(side)) {
+    return `trades[${index}].side must be one of: ${TRADE_SIDES.join(", ")}`;
+  }
+  if (!isPositiveNumber(size)) {
+    return `trades[${index}].size must be a positive number`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a list of trades, returning the first error message or null
+ */
+export function validateTrades(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return "trades must be an array";
+  }
+  if (value.length > CHART_STYLE.TRADES.MAX_COUNT) {
+    return `trades must contain at most ${CHART_STYLE.TRADES.MAX_COUNT} entries`;
+  }
+
+  for (let i = 0; i < value.length; i++) {
+    const error = validateTrade(value[i], i);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Convert the timestamp of a validated trade from the JSON API to Unix milliseconds
+ */
+export function parseTradeTime(trade: Trade<number | string>): Trade {
+  return { ...trade, time: parseTimestamp(trade.time) ?? Number.NaN };
+}
+
+/**
+ * Validate the price and times an annotation of the given type needs
+ */
+function validateAnnotationAnchor(
+  type: AnnotationType,
+  fields: Partial<Record<"price" | "time" | "endTime", unknown>>,
+  index: number,
+): string | null {
+  if ((type === "hline" || type === "callout") && !isPositiveNumber(fields.price)) {
+    return `annotations[${index}].price must be a positive number`;
+  }
+  if (type === "hline") return null;
+
+  const time = parseTimestamp(fields.time);
+  if (time === null) {
+    return `annotations[${index}].time must be a Unix timestamp in milliseconds or an ISO 8601 string`;
+  }
+  if (type !== "range") return null;
+
+  const endTime = parseTimestamp(fields.endTime);
+  if (endTime === null || endTime < time) {
+    return `annotations[${index}].endTime must be a timestamp not before time`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a single annotation, returning an error message or null
+ */
+function validateAnnotation(annotation: unknown, index: number): string | null {
+  if (typeof annotation !== "object" || annotation === null) {
+    return `annotations[${index}] must be an object`;
+  }
+
+  const fields = annotation as Partial<Record<"type" | "price" | "time" | "endTime" | "text" | "color", unknown>>;
+  const { type, text, color } = fields;
+
+  if (!isAnnotationType(type)) {
+    return `annotations[${index}].type must be one of: ${ANNOTATION_TYPES.join(", ")}`;
+  }
+
+  const anchorError = validateAnnotationAnchor(type, fields, index);
+  if (anchorError) return anchorError;
+
+  const { MAX_TEXT_LENGTH } = CHART_STYLE.ANNOTATIONS;
+  if (text !== undefined && (typeof text !== "string" || text.length > MAX_TEXT_LENGTH)) {
+    return `annotations[${index}].text must be a string of at most ${MAX_TEXT_LENGTH} characters`;
+  }
+  if (type === "callout" && !text) {
+    return `annotations[${index}].text is required for callouts`;
+  }
+  if (color !== undefined && !isHexColor(color)) {
+    return `annotations[${index}].color must be a #rrggbb hex color`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a list of annotations, returning the first error message or null
+ */
+export function validateAnnotations(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return "annotations must be an array";
+  }
+  if (value.length > CHART_STYLE.ANNOTATIONS.MAX_COUNT) {
+    return `annotations must contain at most ${CHART_STYLE.ANNOTATIONS.MAX_COUNT} entries`;
+  }
+
+  for (let i = 0; i < value.length; i++) {
+    const error = validateAnnotation(value[i], i);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Convert the timestamps of a validated annotation from the JSON API to Unix milliseconds
+ */
+export function parseAnnotationTimes(annotation: Annotation<number | string>): Annotation {
+  const toTime = (value: number | string) => parseTimestamp(value) ?? Number.NaN;
+
+  switch (annotation.type) {
+    case "hline":
+      return annotation;
+    case "vline":
+    case "callout":
+      return { ...annotation, time: toTime(annotation.time) };
+    case "range":
+      return { ...annotation, time: toTime(annotation.time), endTime: toTime(annotation.endTime) };
+  }
+}
+
+/**
+ * Validate indicator specs such as `["ema:20", "bb:20:2"]`, returning the first error message or null
+ */
+export function validateIndicators(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return "indicators must be an array";
+  }
+  if (value.length > CHART_STYLE.INDICATORS.MAX_COUNT) {
+    return `indicators must contain at most ${CHART_STYLE.INDICATORS.MAX_COUNT} entries`;
+  }
+
+  for (let i = 0; i < value.length; i++) {
+    const spec: unknown = value[i];
+    if (typeof spec !== "string" || !parseIndicatorSpec(spec)) {
+      return `indicators[${i}] must be a spec like sma:50, ema:20, bb:20:2 or vwap (period up to ${CHART_STYLE.INDICATORS.MAX_PERIOD})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a nested color group (background gradient, level colors) of style overrides
+ */
+function validateColorGroup(value: unknown, name: string, keys: readonly string[], hexOnly: boolean): string | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return `style.${name} must be an object`;
+  }
+
+  for (const [key, color] of Object.entries(value)) {
+    if (!keys.includes(key)) {
+      return `style.${name}.${key} is not a supported field`;
+    }
+    if (hexOnly ? !isHexColor(color) : !isCssColor(color)) {
+      return `style.${name}.${key} must be a ${hexOnly ? "#rrggbb hex" : "CSS"} color`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate partial style overrides, returning the first error message or null
+ */
+export function validateStyleOverrides(value: unknown): string | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "style must be an object";
+  }
+
+  for (const [key, field] of Object.entries(value)) {
+    const error = validateStyleField(key, field);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a single style override field
+ */
+function validateStyleField(key: string, value: unknown): string | null {
+  if ((HEX_STYLE_FIELDS as readonly string[]).includes(key)) {
+    return isHexColor(value) ? null : `style.${key} must be a #rrggbb hex color`;
+  }
+  if ((CSS_STYLE_FIELDS as readonly string[]).includes(key)) {
+    return isCssColor(value) ? null : `style.${key} must be a CSS color`;
+  }
+
+  switch (key) {
+    case "backgroundColor":
+      return validateColorGroup(value, key, ["start", "end"], false);
+    case "levelColors":
+      return validateColorGroup(value, key, ["tp", "sl", "liquidation", "custom"], true);
+    case "indicatorColors":
+      return Array.isArray(value) && value.length > 0 && value.every(isHexColor)
+        ? null
+        : "style.indicatorColors must be a non-empty array of #rrggbb hex colors";
+    case "glowStrength":
+      return typeof value === "number" && value >= 0 && value <= CHART_LIMITS.MAX_GLOW_STRENGTH
+        ? null
+        : `style.glowStrength must be a number in [0, ${CHART_LIMITS.MAX_GLOW_STRENGTH}]`;
+    default:
+      return `style.${key} is not a supported field`;
+  }
+}
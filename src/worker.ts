@@ -2,28 +2,35 @@
  * Cloudflare Worker for chart generation
  */
 
-import { generateChart } from "./chart-generator";
-import { CHART_DEFAULTS } from "./constants";
-import type { ChartGenerationConfig } from "./types";
+import { generateChartWithR2, generateComparisonChart, generateSparklineSprite } from "./chart-generator";
+import { ANIMATION_FORMATS, AUTO_FORMATS, CACHE_CONFIG, OUTPUT_CONTENT_TYPES } from "./constants";
+import { getR2Bucket } from "./lib/r2";
+import { createCachedIconLoader, createFetchIconLoader, createR2IconCache } from "./lib/token-icons";
+import type {
+  ChartGenerationWithR2Config,
+  ChartRequest,
+  OutputFormat,
+  OutputFormatOption,
+  TokenIconLoader,
+} from "./types";
+import { parseChartQuery, parseComparisonQuery, parseFormatExtension, parseSparklineQuery } from "./utils/chart-query";
+import { createChartConfig, validateChartRequest } from "./utils/chart-request";
+import { resolveTokenAddress } from "./utils/db";
+import {
+  errorResponse,
+  imageResponse,
+  jsonResponse,
+  negotiateContentType,
+  negotiateExplicitContentType,
+} from "./utils/http";
 import { logger } from "./utils/logger";
 
-// For R2 upload functionality, import:
-// import { generateChartWithR2 } from "./chart-generator";
-// import { getR2Bucket } from "./lib/r2";
-// import type { ChartGenerationWithR2Config } from "./types";
-
-interface ChartRequest {
-  tokenAddress: string;
-  entryPrice: number;
-  isBullish: boolean;
-  periodHours?: number;
-  width?: number;
-  height?: number;
-  dpr?: number;
-}
+const CHART_IMAGE_ROUTE = /^\/chart\/([^/]+?)(?:\.(\w+))?$/;
+const COMPARISON_IMAGE_ROUTE = "/compare.png";
+const SPARKLINE_SPRITE_ROUTE = "/sparklines.png";
 
 export default {
-  async fetch(request: Request): Promise<Response> {
+  async fetch(request: Request, env: CloudflareBindings): Promise<Response> {
     try {
       const url = new URL(request.url);
 
@@ -34,7 +41,25 @@ export default {
 
       // Chart generation endpoint
       if (url.pathname === "/generate-chart" && request.method === "POST") {
-        return await handleGenerateChart(request);
+        return await handleGenerateChart(request, env);
+      }
+
+      // Embeddable chart image endpoint: GET /chart/:token.png (.webp, .jpg, .avif, .gif, .svg, .pdf, or none for auto)
+      const chartMatch = url.pathname.match(CHART_IMAGE_ROUTE);
+      const format = parseFormatExtension(chartMatch?.[2]);
+      if (chartMatch?.[1] && format && request.method === "GET") {
+        const token = decodeURIComponent(chartMatch[1]);
+        return await handleChartImage(request, env, token, format, url.searchParams);
+      }
+
+      // Comparison chart endpoint: GET /compare.png?tokens=SOL,JUP,WIF
+      if (url.pathname === COMPARISON_IMAGE_ROUTE && request.method === "GET") {
+        return await handleComparisonImage(request, url.searchParams);
+      }
+
+      // Sparkline sprite endpoint: GET /sparklines.png?tokens=SOL,JUP,WIF
+      if (url.pathname === SPARKLINE_SPRITE_ROUTE && request.method === "GET") {
+        return await handleSparklineSprite(request, url.searchParams);
       }
 
       // Not found
@@ -42,75 +67,212 @@ export default {
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       logger.error(`Worker error: ${message}`);
-      return new Response(JSON.stringify({ error: message }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
+      return errorResponse(message, 500);
     }
   },
 };
 
+/**
+ * Resolve the requested output format; "auto" picks AVIF or WebP only when the Accept header names it, else PNG
+ * Animations default to "auto" and pick WebP when it is named, else GIF
+ */
+function resolveOutputFormat(
+  request: Request,
+  format: OutputFormatOption | undefined,
+  animated: boolean,
+): OutputFormat {
+  const requested = format ?? (animated ? "auto" : "png");
+  if (requested !== "auto") return requested;
+
+  const candidates = animated ? ANIMATION_FORMATS : AUTO_FORMATS;
+  const contentType = negotiateExplicitContentType(
+    request,
+    candidates.map((candidate) => OUTPUT_CONTENT_TYPES[candidate]),
+  );
+  return candidates.find((candidate) => OUTPUT_CONTENT_TYPES[candidate] === contentType) ?? (animated ? "gif" : "png");
+}
+
+/**
+ * Create a token icon loader that caches normalized icons in the DEX_SSCR_BUCKET R2 binding
+ * Icons are fetched without caching when the binding is missing
+ */
+function createIconLoader(env: CloudflareBindings): TokenIconLoader {
+  const loader = createFetchIconLoader();
+  if (!env.DEX_SSCR_BUCKET) return loader;
+  return createCachedIconLoader(loader, createR2IconCache(getR2Bucket(env.DEX_SSCR_BUCKET)));
+}
+
 /**
  * Handle chart generation request
+ * With `store: true` the chart is uploaded to R2 and the public URL is returned as JSON.
+ * Otherwise responds with the rendered image, or with the chart metrics as JSON
+ * when the client prefers application/json via the Accept header
  */
-async function handleGenerateChart(request: Request): Promise<Response> {
+async function handleGenerateChart(request: Request, env: CloudflareBindings): Promise<Response> {
   try {
     const body = (await request.json()) as ChartRequest;
-    const { tokenAddress, entryPrice, isBullish, periodHours, width, height, dpr } = body;
-
-    // Validate required parameters
-    if (!tokenAddress || typeof tokenAddress !== "string") {
-      return new Response(JSON.stringify({ error: "tokenAddress is required" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      });
+    const validationError = validateChartRequest(body);
+    if (validationError) {
+      return errorResponse(validationError, 400);
+    }
+
+    const config = createChartConfig(body, resolveOutputFormat(request, body.format, body.animation !== undefined));
+
+    if (body.store) {
+      return await handleStoreChart(env, config);
     }
 
-    if (typeof entryPrice !== "number") {
-      return new Response(JSON.stringify({ error: "entryPrice is required and must be a number" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      });
+    const imageType = OUTPUT_CONTENT_TYPES[config.format ?? "png"];
+    const responseType = negotiateContentType(request, [imageType, "application/json"]);
+    if (!responseType) {
+      return errorResponse(`Not Acceptable: supported types are ${imageType} and application/json`, 406);
     }
 
-    if (typeof isBullish !== "boolean") {
-      return new Response(JSON.stringify({ error: "isBullish is required and must be a boolean" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      });
+    // Generate chart in memory
+    const result = await generateChartWithR2({ ...config, iconLoader: createIconLoader(env) });
+
+    if (responseType === "application/json") {
+      return jsonResponse(
+        {
+          success: true,
+          metrics: result.metrics,
+          config,
+        },
+        200,
+        { Vary: "Accept" },
+      );
     }
 
-    // Create configuration with defaults
-    const config: ChartGenerationConfig = {
-      tokenAddress,
-      entryPrice,
-      isBullish,
-      periodHours: periodHours || CHART_DEFAULTS.PERIOD_HOURS,
-      width: width || CHART_DEFAULTS.WIDTH,
-      height: height || CHART_DEFAULTS.HEIGHT,
-      dpr: dpr || CHART_DEFAULTS.DPR,
-      outputPath: `./data/chart-${Date.now()}.png`,
-    };
-
-    // Generate chart
-    await generateChart(config);
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        outputPath: config.outputPath,
-        config,
-      }),
-      {
-        headers: { "Content-Type": "application/json" },
-      },
-    );
+    return await imageResponse(request, result.buffer, result.contentType, { Vary: "Accept" });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     logger.error(`Chart generation failed: ${message}`);
-    return new Response(JSON.stringify({ error: message }), {
-      status: 500,
-      headers: { "Content-Type": "application/json" },
+    return errorResponse(message, 500);
+  }
+}
+
+/**
+ * Render a chart, upload it to the DEX_SSCR_BUCKET R2 binding and return the public URL
+ * Answers 503 when the binding is missing rather than pretending to store the chart
+ */
+async function handleStoreChart(env: CloudflareBindings, config: ChartGenerationWithR2Config): Promise<Response> {
+  if (!env.DEX_SSCR_BUCKET) {
+    return errorResponse("Chart storage is not configured", 503);
+  }
+
+  const r2Bucket = getR2Bucket(env.DEX_SSCR_BUCKET);
+  const result = await generateChartWithR2({ ...config, r2Bucket, iconLoader: createIconLoader(env) });
+  const r2Upload = result.r2Upload;
+
+  if (!r2Upload?.success) {
+    return jsonResponse({ success: false, error: r2Upload?.error ?? "R2 upload failed", r2Upload }, 502);
+  }
+
+  return jsonResponse({
+    success: true,
+    url: r2Upload.url,
+    r2Upload,
+    metrics: result.metrics,
+    config,
+  });
+}
+
+/**
+ * Handle embeddable chart image request, e.g. /chart/SOL.png?entry=142.5&side=long&hours=24
+ * Resolves the token symbol (or address) and responds with a cacheable image in the format of the extension;
+ * without an extension the format is negotiated from the Accept header
+ */
+async function handleChartImage(
+  request: Request,
+  env: CloudflareBindings,
+  token: string,
+  format: OutputFormatOption,
+  params: URLSearchParams,
+): Promise<Response> {
+  try {
+    const tokenAddress = await resolveTokenAddress(token);
+    if (!tokenAddress) {
+      return errorResponse(`Unknown token: ${token}`, 404);
+    }
+
+    const { body, error } = parseChartQuery(tokenAddress, params, format);
+    if (!body) {
+      return errorResponse(error, 400);
+    }
+
+    const validationError = validateChartRequest(body);
+    if (validationError) {
+      return errorResponse(validationError, 400);
+    }
+
+    const config = createChartConfig(body, resolveOutputFormat(request, format, body.animation !== undefined));
+    const result = await generateChartWithR2({ ...config, iconLoader: createIconLoader(env) });
+
+    return await imageResponse(request, result.buffer, result.contentType, {
+      "Cache-Control": `public, max-age=${CACHE_CONFIG.CHART_MAX_AGE}, s-maxage=${CACHE_CONFIG.CHART_S_MAXAGE}`,
+      ...(format === "auto" && { Vary: "Accept" }),
     });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`Chart image generation failed: ${message}`);
+    return errorResponse(message, 500);
+  }
+}
+
+/**
+ * Handle comparison chart image request, e.g. /compare.png?tokens=SOL,JUP,WIF&hours=168
+ * Every token is rebased to 0% at the window start and drawn on a shared percent axis
+ */
+async function handleComparisonImage(request: Request, params: URLSearchParams): Promise<Response> {
+  try {
+    const { tokens, config, error } = parseComparisonQuery(params);
+    if (!config) {
+      return errorResponse(error, 400);
+    }
+
+    const tokenAddresses = await Promise.all(tokens.map(resolveTokenAddress));
+    const unknownIndex = tokenAddresses.indexOf(null);
+    if (unknownIndex !== -1) {
+      return errorResponse(`Unknown token: ${tokens[unknownIndex]}`, 404);
+    }
+
+    const result = await generateComparisonChart({
+      ...config,
+      tokenAddresses: tokenAddresses.filter((address) => address !== null),
+    });
+
+    return await imageResponse(request, result.buffer, result.contentType, {
+      "Cache-Control": `public, max-age=${CACHE_CONFIG.CHART_MAX_AGE}, s-maxage=${CACHE_CONFIG.CHART_S_MAXAGE}`,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`Comparison chart generation failed: ${message}`);
+    return errorResponse(message, 500);
+  }
+}
+
+/**
+ * Handle sparkline sprite request, e.g. /sparklines.png?tokens=SOL,JUP,WIF&w=120&h=40
+ * Returns one vertical PNG with a row of `h` pixels per token in request order; rows of unknown tokens
+ * or tokens without data are transparent and listed in the X-Sparkline-Missing header
+ */
+async function handleSparklineSprite(request: Request, params: URLSearchParams): Promise<Response> {
+  try {
+    const { config, error } = parseSparklineQuery(params);
+    if (!config) {
+      return errorResponse(error, 400);
+    }
+
+    const result = await generateSparklineSprite(config);
+    const missing = result.rows.filter((row) => row.changePercent === null).map((row) => row.token);
+
+    return await imageResponse(request, result.buffer, result.contentType, {
+      "Cache-Control": `public, max-age=${CACHE_CONFIG.CHART_MAX_AGE}, s-maxage=${CACHE_CONFIG.CHART_S_MAXAGE}`,
+      ...(missing.length > 0 && { "X-Sparkline-Missing": missing.map(encodeURIComponent).join(",") }),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error(`Sparkline sprite generation failed: ${message}`);
+    return errorResponse(message, 500);
   }
 }
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import sharp from "sharp";
+import { encodeAnimatedImage } from "../src/lib/animated-image";
+
+const WIDTH = 8;
+const HEIGHT = 6;
+const DELAYS = [100, 200, 2300];
+
+function renderFrames(colors: readonly string[]): Promise<Buffer[]> {
+  return Promise.all(
+    colors.map((background) =>
+      sharp({ create: { width: WIDTH, height: HEIGHT, channels: 4, background } })
+        .png()
+        .toBuffer(),
+    ),
+  );
+}
+
+describe("encodeAnimatedImage", () => {
+  const frames = renderFrames(["#ff0000", "#00ff00", "#0000ff"]);
+
+  test("muxes WebP frames into a RIFF container with the frame delays and loop count", async () => {
+    const buffer = await encodeAnimatedImage(await frames, "webp", {
+      width: WIDTH,
+      height: HEIGHT,
+      delays: DELAYS,
+      loop: 2,
+    });
+
+    expect(buffer.subarray(0, 4).toString("ascii")).toBe("RIFF");
+    expect(buffer.readUInt32LE(4)).toBe(buffer.length - 8);
+    expect(buffer.subarray(8, 16).toString("ascii")).toBe("WEBPVP8X");
+
+    const metadata = await sharp(buffer, { animated: true }).metadata();
+    expect(metadata).toMatchObject({ pages: 3, delay: DELAYS, loop: 2, width: WIDTH, pageHeight: HEIGHT });
+  });
+
+  test("muxes GIF frames into a GIF89a with the frame delays and loop count", async () => {
+    const buffer = await encodeAnimatedImage(await frames, "gif", {
+      width: WIDTH,
+      height: HEIGHT,
+      delays: DELAYS,
+      loop: 2,
+    });
+
+    expect(buffer.subarray(0, 6).toString("ascii")).toBe("GIF89a");
+    expect(buffer[buffer.length - 1]).toBe(0x3b);
+
+    const metadata = await sharp(buffer, { animated: true }).metadata();
+    expect(metadata).toMatchObject({ pages: 3, delay: DELAYS, loop: 2, width: WIDTH, pageHeight: HEIGHT });
+  });
+
+  test("keeps every frame's pixels", async () => {
+    for (const format of ["webp", "gif"] as const) {
+      const buffer = await encodeAnimatedImage(await frames, format, {
+        width: WIDTH,
+        height: HEIGHT,
+        delays: DELAYS,
+        loop: 0,
+      });
+      const lastFrame = await sharp(buffer, { page: 2 }).raw().toBuffer();
+      expect([...lastFrame.subarray(0, 3)]).toEqual([0, 0, 255]);
+    }
+  });
+
+  test("plays a GIF once without a loop extension and forever with loop 0", async () => {
+    const once = await encodeAnimatedImage(await frames, "gif", {
+      width: WIDTH,
+      height: HEIGHT,
+      delays: DELAYS,
+      loop: 1,
+    });
+    const forever = await encodeAnimatedImage(await frames, "gif", {
+      width: WIDTH,
+      height: HEIGHT,
+      delays: DELAYS,
+      loop: 0,
+    });
+
+    expect(once.includes("NETSCAPE2.0")).toBe(false);
+    expect((await sharp(forever, { animated: true }).metadata()).loop).toBe(0);
+  });
+});
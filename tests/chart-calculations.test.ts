@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import type { OHLCPoint, Point } from "../src/types";
+import {
+  calculateLogTicks,
+  calculateNiceTicks,
+  calculateTimeTicks,
+  detectGaps,
+  findGapBreaks,
+  findNearestPoint,
+  findPointInRange,
+  forwardFillGaps,
+  getTypicalInterval,
+} from "../src/utils/chart-calculations";
+
+const points: Point[] = [
+  { t: 1_000, y: 1 },
+  { t: 2_000, y: 2 },
+  { t: 3_000, y: 3 },
+];
+
+describe("findNearestPoint", () => {
+  test("snaps to the closest point, preferring the earlier one on ties", () => {
+    expect(findNearestPoint(points, 2_400)?.y).toBe(2);
+    expect(findNearestPoint(points, 2_600)?.y).toBe(3);
+    expect(findNearestPoint(points, 2_500)?.y).toBe(2);
+  });
+
+  test("returns undefined for an empty series", () => {
+    expect(findNearestPoint([], 1_000)).toBeUndefined();
+  });
+});
+
+describe("findPointInRange", () => {
+  test("resolves timestamps inside the series", () => {
+    expect(findPointInRange(points, 2_100, 500)?.y).toBe(2);
+  });
+
+  test("allows the tolerance before the first and after the last point", () => {
+    expect(findPointInRange(points, 500, 500)?.y).toBe(1);
+    expect(findPointInRange(points, 3_500, 500)?.y).toBe(3);
+  });
+
+  test("drops timestamps beyond the tolerance instead of snapping them to the edge", () => {
+    expect(findPointInRange(points, 499, 500)).toBeUndefined();
+    expect(findPointInRange(points, 3_501, 500)).toBeUndefined();
+  });
+});
+
+describe("calculateLogTicks", () => {
+  test("uses the 1-2-5 sequence when it fits", () => {
+    expect(calculateLogTicks(1, 100, 10)).toEqual([1, 2, 5, 10, 20, 50, 100]);
+  });
+
+  test("keeps sub-unit ticks free of float noise", () => {
+    expect(calculateLogTicks(0.0003, 0.006, 10)).toEqual([0.0005, 0.001, 0.002, 0.005]);
+  });
+
+  test("falls back to sparser sequences and thins powers of ten for wide ranges", () => {
+    expect(calculateLogTicks(1, 1000, 4)).toEqual([1, 10, 100, 1000]);
+    expect(calculateLogTicks(1, 1e9, 3)).toEqual([1, 1e4, 1e8]);
+  });
+
+  test("spreads ticks evenly in log space for narrow ranges", () => {
+    const ticks = calculateLogTicks(2, 3, 5);
+    expect(ticks).toHaveLength(5);
+    expect(ticks[0]).toBeCloseTo(2);
+    expect(ticks[2]).toBeCloseTo(Math.sqrt(6));
+    expect(ticks[4]).toBeCloseTo(3);
+  });
+});
+
+describe("calculateNiceTicks", () => {
+  test("picks 1/2/5 steps that keep the tick count within the limit", () => {
+    expect(calculateNiceTicks(137, 162, 5)).toEqual({ ticks: [140, 145, 150, 155, 160], step: 5 });
+    expect(calculateNiceTicks(0, 1, 5)).toEqual({ ticks: [0, 0.5, 1], step: 0.5 });
+  });
+
+  test("rounds away float noise", () => {
+    expect(calculateNiceTicks(0.15, 0.75, 7).ticks).toEqual([0.2, 0.3, 0.4, 0.5, 0.6, 0.7]);
+  });
+
+  test("returns the single value of an empty range", () => {
+    expect(calculateNiceTicks(5, 5, 5)).toEqual({ ticks: [5], step: 5 });
+  });
+});
+
+describe("calculateTimeTicks", () => {
+  const hour = 60 * 60 * 1000;
+
+  test("aligns ticks to multiples of the step", () => {
+    expect(calculateTimeTicks(0.5 * hour, 3.5 * hour, hour)).toEqual([hour, 2 * hour, 3 * hour]);
+  });
+
+  test("shifts daily ticks to local midnight", () => {
+    const day = 24 * hour;
+    expect(calculateTimeTicks(0, 2 * day, day, 9 * hour)).toEqual([15 * hour, 39 * hour]);
+  });
+});
+
+describe("gap handling", () => {
+  const minute = 60 * 1000;
+  const candle = (t: number, y: number): OHLCPoint => ({ t, y, o: y, h: y, l: y, v: 1 });
+  // A 10-minute hole stays below the 15-interval threshold; the 20-minute one is a gap
+  const series = [
+    candle(0, 1),
+    candle(minute, 2),
+    candle(11 * minute, 3),
+    candle(31 * minute, 4),
+    candle(32 * minute, 5),
+  ];
+
+  test("detects only holes longer than 15 intervals", () => {
+    expect(detectGaps(series, 1)).toEqual([{ start: 11 * minute, end: 31 * minute, missingPoints: 19 }]);
+    expect(detectGaps(series, 5)).toEqual([]);
+  });
+
+  test("forward-fills detected gaps with flat candles at the last close", () => {
+    const filled = forwardFillGaps(series, detectGaps(series, 1), 1);
+
+    expect(filled).toHaveLength(series.length + 19);
+    expect(filled[3]).toEqual({ t: 12 * minute, y: 3, o: 3, h: 3, l: 3, v: 0 });
+    expect(filled[21]).toEqual({ t: 30 * minute, y: 3, o: 3, h: 3, l: 3, v: 0 });
+    expect(filled[22]).toEqual(series[3] as OHLCPoint);
+  });
+
+  test("leaves holes below the threshold unfilled", () => {
+    const filled = forwardFillGaps(series, detectGaps(series, 1), 1);
+    expect(filled[1]?.t).toBe(minute);
+    expect(filled[2]?.t).toBe(11 * minute);
+  });
+
+  test("breaks the line at the point after each gap", () => {
+    expect(findGapBreaks(series, detectGaps(series, 1))).toEqual([3]);
+  });
+
+  test("measures the typical spacing without the gaps", () => {
+    const regular = [0, 1, 2, 3, 23, 24].map((index) => candle(index * minute, 1));
+    expect(getTypicalInterval(regular)).toBe(minute);
+    expect(getTypicalInterval([candle(0, 1)])).toBe(0);
+  });
+});
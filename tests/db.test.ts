@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import type { OHLCPoint } from "../src/types";
+import { downsampleCandles, getWindowStart } from "../src/utils/db";
+
+function candle(t: number, o: number, h: number, l: number, y: number, v = 1): OHLCPoint {
+  return { t, o, h, l, y, v };
+}
+
+describe("downsampleCandles", () => {
+  const candles = [
+    candle(0, 10, 12, 9, 11),
+    candle(60_000, 11, 15, 10, 14, 2),
+    candle(120_000, 14, 14, 8, 9, 3),
+    candle(180_000, 9, 10, 7, 8, 4),
+    candle(240_000, 8, 9, 6, 7, 5),
+  ];
+
+  test("returns the candles unchanged when they fit", () => {
+    expect(downsampleCandles(candles, 5)).toBe(candles);
+  });
+
+  test("merges bins into first open, last close, extremes and summed volume", () => {
+    expect(downsampleCandles(candles, 2)).toEqual([candle(0, 10, 15, 8, 9, 6), candle(180_000, 9, 10, 6, 7, 9)]);
+  });
+
+  test("keeps a short trailing bin", () => {
+    const merged = downsampleCandles(candles, 4);
+    expect(merged).toHaveLength(3);
+    expect(merged[2]).toEqual(candles[4] as OHLCPoint);
+  });
+});
+
+describe("getWindowStart", () => {
+  const end = 1_750_000_000; // unix seconds
+  const hour = 60 * 60;
+
+  test("covers the requested period", () => {
+    expect(getWindowStart(end, 24, 1)).toBe(end - 24 * hour);
+  });
+
+  test("keeps the period when the include time is inside it", () => {
+    expect(getWindowStart(end, 24, 1, (end - 2 * hour) * 1000)).toBe(end - 24 * hour);
+  });
+
+  test("extends back to an older include time with 5% padding", () => {
+    expect(getWindowStart(end, 24, 1, (end - 48 * hour) * 1000)).toBe(end - 48 * hour - 0.05 * 48 * hour);
+  });
+
+  test("caps the extension at the rows one query returns", () => {
+    expect(getWindowStart(end, 24, 1, (end - 300 * hour) * 1000)).toBe(end - 10_000 * 60);
+  });
+
+  test("caps the extension at the maximum period for coarser intervals", () => {
+    expect(getWindowStart(end, 24, 5, (end - 300 * hour) * 1000)).toBe(end - 315 * hour);
+    expect(getWindowStart(end, 24, 5, (end - 1000 * hour) * 1000)).toBe(end - 720 * hour);
+  });
+});
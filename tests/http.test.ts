@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { negotiateContentType, negotiateExplicitContentType } from "../src/utils/http";
+
+function requestWithAccept(accept?: string): Request {
+  return new Request("http://localhost/generate-chart", { headers: accept ? { Accept: accept } : {} });
+}
+
+describe("negotiateContentType", () => {
+  const offers = ["image/png", "application/json"];
+
+  test("returns the first offer without an Accept header", () => {
+    expect(negotiateContentType(requestWithAccept(), offers)).toBe("image/png");
+  });
+
+  test("keeps offer order on ties", () => {
+    expect(negotiateContentType(requestWithAccept("*/*"), offers)).toBe("image/png");
+  });
+
+  test("prefers the offer with the highest quality", () => {
+    expect(negotiateContentType(requestWithAccept("image/png;q=0.5, application/json"), offers)).toBe(
+      "application/json",
+    );
+  });
+
+  test("lets the most specific range win", () => {
+    expect(negotiateContentType(requestWithAccept("image/*;q=0.9, image/png;q=0.1, */*;q=0.5"), offers)).toBe(
+      "application/json",
+    );
+  });
+
+  test("returns null when nothing is acceptable", () => {
+    expect(negotiateContentType(requestWithAccept("text/html"), offers)).toBeNull();
+    expect(negotiateContentType(requestWithAccept("image/png;q=0, application/json;q=0"), offers)).toBeNull();
+  });
+});
+
+describe("negotiateExplicitContentType", () => {
+  const offers = ["image/avif", "image/webp", "image/png"];
+
+  test("matches nothing without an Accept header or with wildcards only", () => {
+    expect(negotiateExplicitContentType(requestWithAccept(), offers)).toBeNull();
+    expect(negotiateExplicitContentType(requestWithAccept("*/*"), offers)).toBeNull();
+    expect(negotiateExplicitContentType(requestWithAccept("image/*"), offers)).toBeNull();
+  });
+
+  test("picks a type the client names, keeping offer order on ties", () => {
+    expect(negotiateExplicitContentType(requestWithAccept("image/webp,*/*"), offers)).toBe("image/webp");
+    expect(negotiateExplicitContentType(requestWithAccept("image/webp,image/avif,*/*"), offers)).toBe("image/avif");
+  });
+
+  test("ignores types named with q=0 and follows quality values", () => {
+    expect(negotiateExplicitContentType(requestWithAccept("image/avif;q=0,image/webp"), offers)).toBe("image/webp");
+    expect(negotiateExplicitContentType(requestWithAccept("image/png,image/avif;q=0.5"), offers)).toBe("image/png");
+  });
+});
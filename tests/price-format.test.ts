@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { formatPrice } from "../src/utils/price-format";
+
+describe("formatPrice", () => {
+  test("writes tiny prices with a subscript zero count", () => {
+    expect(formatPrice(0.0000001234)).toBe("$0.0₆1234");
+    expect(formatPrice(0.0000012)).toBe("$0.0₅12");
+    expect(formatPrice(-0.0000001234)).toBe("-$0.0₆1234");
+  });
+
+  test("switches to subscript from four leading zeros", () => {
+    expect(formatPrice(0.0001234)).toBe("$0.0001234");
+    expect(formatPrice(0.00009999)).toBe("$0.0₄9999");
+  });
+
+  test("pads subscript digits and follows the locale's decimal separator", () => {
+    expect(formatPrice(0.0000012, { padZeros: true })).toBe("$0.0₅1200");
+    expect(formatPrice(0.0000001234, { locale: "de-DE" })).toBe("$0,0₆1234");
+  });
+
+  test("writes plain decimals when subscript zeros are disabled", () => {
+    expect(formatPrice(0.0000001234, { subscriptZeros: false })).toBe("$0.0000001234");
+  });
+
+  test("uses compact suffixes from 1,000 and rounds into the next unit", () => {
+    expect(formatPrice(142.5)).toBe("$142.5");
+    expect(formatPrice(1234)).toBe("$1.234K");
+    expect(formatPrice(3456789)).toBe("$3.457M");
+    expect(formatPrice(999950)).toBe("$1M");
+  });
+
+  test("keeps the integer part without compact notation", () => {
+    expect(formatPrice(12345.678, { compact: false })).toBe("$12,346");
+    expect(formatPrice(1234567.891, { locale: "de-DE", compact: false })).toBe("$1.234.568");
+  });
+});